@@ -0,0 +1,200 @@
+import type * as vscode from 'vscode';
+import type { LineAnalysis } from './IndentationEngine';
+import type { ScopeResult } from './ScopeFinder';
+import {
+    MATCHING_OPENER,
+    SyntaxScanner,
+    type BlockToken,
+    type LanguageSyntax,
+    type OpenSpan,
+} from './SyntaxScanner';
+
+interface OpenToken {
+    token: BlockToken;
+    line: number;
+    character: number;
+}
+
+interface BracketScanState {
+    openSpan: OpenSpan | null;
+    /** Unclosed brackets and `begin`s, innermost last */
+    stack: OpenToken[];
+}
+
+export interface BracketState {
+    languageId: string;
+    syntax: LanguageSyntax | null;
+    /** Scan state at the start of every CHECKPOINT_INTERVAL-th line */
+    checkpoints: BracketScanState[];
+}
+
+export interface BracketBlock {
+    openLine: number;
+    openCharacter: number;
+    closeLine: number;
+    closeCharacter: number;
+}
+
+export type LineAnalysisProvider = (line: number) => LineAnalysis;
+
+const CHECKPOINT_INTERVAL = 256;
+/** How far past the cursor to look for the closing bracket */
+const MAX_FORWARD_SCAN_LINES = 10000;
+
+export class BracketScopeFinder {
+    public static createState(languageId: string): BracketState {
+        return {
+            languageId,
+            syntax: SyntaxScanner.forLanguage(languageId),
+            checkpoints: [{ openSpan: null, stack: [] }],
+        };
+    }
+
+    /** Drops checkpoints that depend on `line` or anything after it. */
+    public static invalidateFrom(state: BracketState, line: number): void {
+        const keep = Math.floor(Math.max(0, line) / CHECKPOINT_INTERVAL) + 1;
+        if (keep < state.checkpoints.length) state.checkpoints.length = keep;
+    }
+
+    /**
+     * Maps the innermost bracket pair spanning several lines around the cursor onto the indent
+     * level of its opening line. Returns null when the cursor is not inside such a pair.
+     */
+    public static findScope(
+        state: BracketState,
+        doc: vscode.TextDocument,
+        activeLineNum: number,
+        activeChar: number,
+        analyzeLine: LineAnalysisProvider,
+    ): ScopeResult | null {
+        if (activeLineNum === -1) return null;
+
+        const block = this.findEnclosingBlock(state, doc, activeLineNum, activeChar);
+        if (!block) return null;
+
+        return {
+            highlightLevel: analyzeLine(block.openLine).blocks.length,
+            blockStart: block.openLine,
+            blockEnd: block.closeLine,
+        };
+    }
+
+    /**
+     * Finds the innermost `{}`, `[]`, `()` or `begin..end` pair that encloses the position
+     * and spans more than one line, skipping brackets inside strings and comments.
+     */
+    public static findEnclosingBlock(
+        state: BracketState,
+        doc: vscode.TextDocument,
+        line: number,
+        character: number,
+    ): BracketBlock | null {
+        const syntax = state.syntax;
+        if (!syntax) return null;
+
+        // 1. Collect the brackets left open before the position
+        const start = this.getCheckpoint(state, syntax, doc, line);
+        const stack = start.stack.slice();
+        let openSpan = start.openSpan;
+        let cursorLineSpan: OpenSpan | null = null;
+
+        for (let i = Math.floor(line / CHECKPOINT_INTERVAL) * CHECKPOINT_INTERVAL; i <= line; i++) {
+            const end = i === line ? character : undefined;
+            if (i === line) cursorLineSpan = openSpan;
+            openSpan = SyntaxScanner.scanLine(
+                syntax,
+                doc.lineAt(i).text,
+                openSpan,
+                (token, index) => this.applyToken(stack, token, i, index),
+                end,
+            ).openSpan;
+        }
+        if (stack.length === 0) return null;
+
+        // 2. Walk forward, closing the open brackets from the innermost outwards
+        const nested: BlockToken[] = [];
+        let found: BracketBlock | null = null;
+        const lastLine = Math.min(doc.lineCount - 1, line + MAX_FORWARD_SCAN_LINES);
+        // The cursor line is rescanned from its start; tokens before the cursor are skipped
+        openSpan = cursorLineSpan;
+
+        for (let i = line; i <= lastLine && !found && stack.length > 0; i++) {
+            openSpan = SyntaxScanner.scanLine(
+                syntax,
+                doc.lineAt(i).text,
+                openSpan,
+                (token, index) => {
+                    if (found || (i === line && index < character)) return;
+
+                    const opener = MATCHING_OPENER[token];
+                    if (opener === undefined) {
+                        nested.push(token);
+                    } else if (nested.length > 0) {
+                        if (nested[nested.length - 1] === opener) nested.pop();
+                    } else if (stack[stack.length - 1]?.token === opener) {
+                        const open = stack.pop()!;
+                        if (open.line !== i) {
+                            found = {
+                                openLine: open.line,
+                                openCharacter: open.character,
+                                closeLine: i,
+                                closeCharacter: index,
+                            };
+                        }
+                    }
+                },
+            ).openSpan;
+        }
+
+        return found;
+    }
+
+    private static applyToken(
+        stack: OpenToken[],
+        token: BlockToken,
+        line: number,
+        character: number,
+    ): void {
+        const opener = MATCHING_OPENER[token];
+        if (opener === undefined) {
+            stack.push({ token, line, character });
+            return;
+        }
+        // Unbalanced closers are ignored rather than unwinding unrelated brackets
+        for (let i = stack.length - 1; i >= 0; i--) {
+            if (stack[i].token === opener) {
+                stack.length = i;
+                return;
+            }
+        }
+    }
+
+    private static getCheckpoint(
+        state: BracketState,
+        syntax: LanguageSyntax,
+        doc: vscode.TextDocument,
+        line: number,
+    ): BracketScanState {
+        const target = Math.floor(line / CHECKPOINT_INTERVAL);
+
+        while (state.checkpoints.length <= target) {
+            const index = state.checkpoints.length - 1;
+            const previous = state.checkpoints[index];
+            const stack = previous.stack.slice();
+            let openSpan = previous.openSpan;
+            const end = Math.min(doc.lineCount, (index + 1) * CHECKPOINT_INTERVAL);
+
+            for (let i = index * CHECKPOINT_INTERVAL; i < end; i++) {
+                openSpan = SyntaxScanner.scanLine(
+                    syntax,
+                    doc.lineAt(i).text,
+                    openSpan,
+                    (token, character) => this.applyToken(stack, token, i, character),
+                ).openSpan;
+            }
+            state.checkpoints.push({ openSpan, stack });
+        }
+
+        return state.checkpoints[target];
+    }
+}
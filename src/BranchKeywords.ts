@@ -0,0 +1,60 @@
+const C_FAMILY_KEYWORDS = ['else', 'catch', 'finally'];
+
+/** Keywords that start a line continuing the compound statement above it */
+export const DEFAULT_BRANCH_KEYWORDS: Record<string, string[]> = {
+    python: ['elif', 'else', 'except', 'finally'],
+    ruby: ['elsif', 'else', 'when', 'rescue', 'ensure'],
+    shellscript: ['elif', 'else', 'fi'],
+    c: C_FAMILY_KEYWORDS,
+    cpp: C_FAMILY_KEYWORDS,
+    csharp: C_FAMILY_KEYWORDS,
+    java: C_FAMILY_KEYWORDS,
+    javascript: C_FAMILY_KEYWORDS,
+    javascriptreact: C_FAMILY_KEYWORDS,
+    typescript: C_FAMILY_KEYWORDS,
+    typescriptreact: C_FAMILY_KEYWORDS,
+    go: C_FAMILY_KEYWORDS,
+    rust: C_FAMILY_KEYWORDS,
+    php: C_FAMILY_KEYWORDS,
+    swift: C_FAMILY_KEYWORDS,
+    kotlin: C_FAMILY_KEYWORDS,
+    dart: C_FAMILY_KEYWORDS,
+    scala: C_FAMILY_KEYWORDS,
+};
+
+/** First word of a line, after any closing brackets (`} else {`) */
+const LEADING_WORD_REGEX = /^[\s)\]}]*([A-Za-z_]\w*)/;
+
+export class BranchKeywords {
+    /**
+     * Merges user keyword lists over the built-in defaults. A `null` user entry removes the
+     * built-in list for that language; non-string keywords are skipped.
+     */
+    public static resolve(userKeywords: Record<string, string[] | null>): Map<string, Set<string>> {
+        const keywords = new Map(
+            Object.entries(DEFAULT_BRANCH_KEYWORDS).map(([languageId, list]) => [
+                languageId,
+                new Set(list),
+            ]),
+        );
+
+        for (const [languageId, list] of Object.entries(userKeywords)) {
+            if (list === null) {
+                keywords.delete(languageId);
+            } else if (Array.isArray(list)) {
+                keywords.set(
+                    languageId,
+                    new Set(list.filter((word): word is string => typeof word === 'string')),
+                );
+            }
+        }
+
+        return keywords;
+    }
+
+    /** Whether the line starts with one of the keywords, e.g. `else:` or `} catch (e) {`. */
+    public static isBranchLine(text: string, keywords: ReadonlySet<string>): boolean {
+        const match = LEADING_WORD_REGEX.exec(text);
+        return match !== null && keywords.has(match[1]);
+    }
+}
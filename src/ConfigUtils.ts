@@ -10,6 +10,36 @@ export class ConfigUtils {
             '|' +
             config.mixColor +
             '|' +
+            config.offGridColor +
+            '|' +
+            config.alignmentColor +
+            '|' +
+            config.policyColor +
+            '|' +
+            config.invalidWhitespaceColor +
+            '|' +
+            config.trailingWhitespaceColor +
+            '|' +
+            config.blankLineWhitespaceColor +
+            '|' +
+            config.continuationColor +
+            '|' +
+            config.dedentColor +
+            '|' +
+            config.indentJumpColor +
+            '|' +
+            config.activeScopeHeaderColor +
+            '|' +
+            config.activeScopeClosingColor +
+            '|' +
+            config.activeScopeGutterColor +
+            '|' +
+            config.activeScopeOpenerColor +
+            '|' +
+            config.smartTabs +
+            '|' +
+            config.continuationLines +
+            '|' +
             config.indicatorStyle +
             '|' +
             config.lightIndicatorWidth +
@@ -31,4 +61,13 @@ export class ConfigUtils {
         }
         return hash >>> 0; // Convert to unsigned 32-bit
     }
+
+    public static hashPositions(positions: readonly vscode.Position[]): number {
+        let hash = positions.length * 31;
+        for (const position of positions) {
+            hash = (hash << 5) - hash + position.line;
+            hash = (hash << 5) - hash + position.character;
+        }
+        return hash >>> 0;
+    }
 }
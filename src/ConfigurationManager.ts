@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { PALETTES, type PaletteKey } from './colors';
+import { BranchKeywords } from './BranchKeywords';
 import { ColorUtils } from './ColorUtils';
+import { IndentDiagnostics, type DiagnosticSeverities } from './IndentDiagnostics';
+import { LanguageRules, type LanguagePolicy } from './LanguageRules';
 import { PatternCompiler, type CompiledPattern } from './PatternCompiler';
 
 export enum IndicatorStyle {
@@ -8,19 +11,82 @@ export enum IndicatorStyle {
     Light = 'light',
 }
 
+export enum IndentSource {
+    Editor = 'editor',
+    Detected = 'detected',
+    DetectedWithFallback = 'detectedWithFallback',
+}
+
+export enum ScopeMode {
+    Indent = 'indent',
+    Bracket = 'bracket',
+    Hybrid = 'hybrid',
+}
+
+export enum BranchScope {
+    Branch = 'branch',
+    Compound = 'compound',
+}
+
+export enum FixOnSave {
+    Off = 'off',
+    Mixed = 'mixed',
+    Errors = 'errors',
+    All = 'all',
+}
+
 export interface IndentSpectraConfig {
     updateDelay: number;
     colorPreset: PaletteKey | 'custom';
     colors: string[];
     errorColor: string;
     mixColor: string;
+    offGridColor: string;
+    alignmentColor: string;
+    policyColor: string;
+    invalidWhitespaceColor: string;
+    dedentColor: string;
+    indentJumpColor: string;
     ignorePatterns: string[];
     compiledPatterns: CompiledPattern[];
     ignoredLanguages: Set<string>;
     ignoreErrorLanguages: Set<string>;
+    trailingWhitespace: boolean;
+    trailingWhitespaceColor: string;
+    blankLineWhitespace: boolean;
+    blankLineWhitespaceColor: string;
+    ignoreWhitespaceLanguages: Set<string>;
     indicatorStyle: IndicatorStyle;
     lightIndicatorWidth: number;
     activeIndentBrightness: number;
+    activeScopeHeaderColor: string;
+    activeScopeClosingColor: string;
+    activeScopeGutterColor: string;
+    activeScopeOpenerColor: string;
+    maxActiveScopes: number;
+    blankLineGuides: boolean;
+    indentSource: IndentSource;
+    useEditorConfig: boolean;
+    readModelines: boolean;
+    smartTabs: boolean;
+    continuationLines: boolean;
+    continuationColor: string;
+    scopeMode: ScopeMode;
+    languageScopeModes: Map<string, ScopeMode>;
+    branchScope: BranchScope;
+    branchKeywords: Map<string, Set<string>>;
+    foldingLanguages: string[];
+    scopeSelection: boolean;
+    formatLanguages: string[];
+    formatKeepAlignment: boolean;
+    fixOnSave: FixOnSave;
+    fixOnSaveExclude: string[];
+    scopeBreadcrumb: boolean;
+    scopeHover: boolean;
+    diagnostics: boolean;
+    diagnosticSeverity: DiagnosticSeverities;
+    codeActions: boolean;
+    languageRules: Map<string, LanguagePolicy>;
 }
 
 export class ConfigurationManager {
@@ -46,22 +112,93 @@ export class ConfigurationManager {
         const indicatorStyle =
             rawIndicatorStyle === 'light' ? IndicatorStyle.Light : IndicatorStyle.Classic;
 
+        const rawIndentSource = config.get<string>('indentSource', IndentSource.Editor);
+        const indentSource = Object.values(IndentSource).includes(rawIndentSource as IndentSource)
+            ? (rawIndentSource as IndentSource)
+            : IndentSource.Editor;
+
         this.config = {
             updateDelay: Math.max(10, config.get<number>('updateDelay', 100)),
             colorPreset: rawPreset,
             colors: sanitizedColors,
             errorColor: this.sanitizeColor(config.get<string>('errorColor', '')),
             mixColor: this.sanitizeColor(config.get<string>('mixColor', '')),
+            offGridColor: this.sanitizeColor(config.get<string>('offGridColor', '')),
+            alignmentColor: this.sanitizeColor(config.get<string>('alignmentColor', '')),
+            policyColor: this.sanitizeColor(config.get<string>('policyColor', '')),
+            invalidWhitespaceColor: this.sanitizeColor(
+                config.get<string>('invalidWhitespaceColor', ''),
+            ),
+            dedentColor: this.sanitizeColor(config.get<string>('dedentColor', '')),
+            indentJumpColor: this.sanitizeColor(config.get<string>('indentJumpColor', '')),
             ignorePatterns: config.get<string[]>('ignorePatterns', []),
             compiledPatterns: PatternCompiler.compile(config.get<string[]>('ignorePatterns', [])),
             ignoredLanguages: new Set(config.get<string[]>('ignoredLanguages', [])),
             ignoreErrorLanguages: new Set(config.get<string[]>('ignoreErrorLanguages', [])),
+            trailingWhitespace: config.get<boolean>('trailingWhitespace', false),
+            trailingWhitespaceColor: this.sanitizeColor(
+                config.get<string>('trailingWhitespaceColor', ''),
+            ),
+            blankLineWhitespace: config.get<boolean>('blankLineWhitespace', false),
+            blankLineWhitespaceColor: this.sanitizeColor(
+                config.get<string>('blankLineWhitespaceColor', ''),
+            ),
+            ignoreWhitespaceLanguages: new Set(
+                config.get<string[]>('ignoreWhitespaceLanguages', ['markdown']),
+            ),
             indicatorStyle,
             lightIndicatorWidth: Math.max(1, config.get<number>('lightIndicatorWidth', 1)),
             activeIndentBrightness: Math.max(
                 0,
                 Math.min(9, config.get<number>('activeIndentBrightness', 2)),
             ),
+            activeScopeHeaderColor: this.sanitizeColor(
+                config.get<string>('activeScopeHeaderColor', ''),
+            ),
+            activeScopeClosingColor: this.sanitizeColor(
+                config.get<string>('activeScopeClosingColor', ''),
+            ),
+            activeScopeGutterColor: this.sanitizeColor(
+                config.get<string>('activeScopeGutterColor', ''),
+            ),
+            activeScopeOpenerColor: this.sanitizeColor(
+                config.get<string>('activeScopeOpenerColor', ''),
+            ),
+            maxActiveScopes: Math.max(1, config.get<number>('maxActiveScopes', 10)),
+            blankLineGuides: config.get<boolean>('blankLineGuides', true),
+            indentSource,
+            useEditorConfig: config.get<boolean>('useEditorConfig', true),
+            readModelines: config.get<boolean>('readModelines', true),
+            smartTabs: config.get<boolean>('smartTabs', false),
+            continuationLines: config.get<boolean>('continuationLines', true),
+            continuationColor: this.sanitizeColor(config.get<string>('continuationColor', '')),
+            scopeMode: this.parseScopeMode(config.get<string>('scopeMode', ScopeMode.Indent)),
+            languageScopeModes: this.resolveScopeModes(
+                config.get<Record<string, string>>('languageScopeModes', {}),
+            ),
+            branchScope:
+                config.get<string>('branchScope', BranchScope.Branch) === BranchScope.Compound
+                    ? BranchScope.Compound
+                    : BranchScope.Branch,
+            branchKeywords: BranchKeywords.resolve(
+                config.get<Record<string, string[] | null>>('branchKeywords', {}),
+            ),
+            foldingLanguages: config.get<string[]>('foldingLanguages', []),
+            scopeSelection: config.get<boolean>('scopeSelection', true),
+            formatLanguages: config.get<string[]>('formatLanguages', []),
+            formatKeepAlignment: config.get<boolean>('formatKeepAlignment', true),
+            fixOnSave: this.parseFixOnSave(config.get<string>('fixOnSave', FixOnSave.Off)),
+            fixOnSaveExclude: config.get<string[]>('fixOnSaveExclude', []),
+            scopeBreadcrumb: config.get<boolean>('scopeBreadcrumb', true),
+            scopeHover: config.get<boolean>('scopeHover', false),
+            diagnostics: config.get<boolean>('diagnostics', false),
+            diagnosticSeverity: IndentDiagnostics.resolveSeverities(
+                config.get<Record<string, string>>('diagnosticSeverity', {}),
+            ),
+            codeActions: config.get<boolean>('codeActions', true),
+            languageRules: LanguageRules.resolve(
+                config.get<Record<string, LanguagePolicy | null>>('languageRules', {}),
+            ),
         };
 
         this._onDidChangeConfig.fire(this.config);
@@ -75,6 +212,28 @@ export class ConfigurationManager {
         return PALETTES[preset] ?? PALETTES.universal;
     }
 
+    private parseScopeMode(value: string | undefined): ScopeMode {
+        return Object.values(ScopeMode).includes(value as ScopeMode)
+            ? (value as ScopeMode)
+            : ScopeMode.Indent;
+    }
+
+    private parseFixOnSave(value: string | undefined): FixOnSave {
+        return Object.values(FixOnSave).includes(value as FixOnSave)
+            ? (value as FixOnSave)
+            : FixOnSave.Off;
+    }
+
+    private resolveScopeModes(raw: Record<string, string>): Map<string, ScopeMode> {
+        const modes = new Map<string, ScopeMode>();
+        for (const [languageId, mode] of Object.entries(raw ?? {})) {
+            if (Object.values(ScopeMode).includes(mode as ScopeMode)) {
+                modes.set(languageId, mode as ScopeMode);
+            }
+        }
+        return modes;
+    }
+
     private sanitizeColor(color: string): string {
         return ColorUtils.sanitizeColor(color);
     }
@@ -0,0 +1,151 @@
+import {
+    MATCHING_OPENER,
+    SyntaxScanner,
+    type LanguageSyntax,
+    type OpenSpan,
+} from './SyntaxScanner';
+
+interface ScanState {
+    /** Open brackets, innermost last */
+    brackets: string;
+    /** String or block comment left open by the previous line */
+    openSpan: OpenSpan | null;
+    /** Whether the previous line ended with a backslash */
+    escapedNewline: boolean;
+    /** First line of the statement the next line would continue */
+    statementStart: number;
+}
+
+export interface ContinuationState {
+    languageId: string;
+    /** Null for languages whose brackets and quotes are prose, not syntax */
+    syntax: LanguageSyntax | null;
+    /** Statement start per scanned line; -1 when the line starts its own statement */
+    parents: number[];
+    /** Whether each scanned line starts inside a block comment */
+    inComment: boolean[];
+    /** Scan state at the start of every CHECKPOINT_INTERVAL-th line */
+    checkpoints: ScanState[];
+}
+
+export type LineTextProvider = (line: number) => string;
+
+const CHECKPOINT_INTERVAL = 256;
+
+export class ContinuationTracker {
+    public static createState(languageId: string): ContinuationState {
+        return {
+            languageId,
+            syntax: SyntaxScanner.forLanguage(languageId),
+            parents: [],
+            inComment: [],
+            checkpoints: [
+                { brackets: '', openSpan: null, escapedNewline: false, statementStart: 0 },
+            ],
+        };
+    }
+
+    /** Drops results from `line` onwards; earlier lines only depend on what precedes them. */
+    public static invalidateFrom(state: ContinuationState, line: number): void {
+        const keep = Math.max(0, line);
+        if (keep >= state.parents.length) return;
+        state.parents.length = keep;
+        state.inComment.length = keep;
+        state.checkpoints.length = Math.floor(keep / CHECKPOINT_INTERVAL) + 1;
+    }
+
+    /**
+     * Returns the first line of the statement that `line` continues, or -1 when the line
+     * starts a statement of its own. Lines inside `(` (and `[` and `{` where braces are
+     * literals), after a trailing backslash, or inside a multi-line string are continuations.
+     */
+    public static parentLineOf(
+        state: ContinuationState,
+        line: number,
+        getText: LineTextProvider,
+    ): number {
+        if (!state.syntax) return -1;
+        if (line >= state.parents.length) this.scanThrough(state, state.syntax, line, getText);
+        return state.parents[line];
+    }
+
+    /** Whether `line` starts inside a block comment, such as the ` * ` lines of a doc comment. */
+    public static startsInComment(
+        state: ContinuationState,
+        line: number,
+        getText: LineTextProvider,
+    ): boolean {
+        if (!state.syntax) return false;
+        if (line >= state.parents.length) this.scanThrough(state, state.syntax, line, getText);
+        return state.inComment[line];
+    }
+
+    private static scanThrough(
+        state: ContinuationState,
+        syntax: LanguageSyntax,
+        targetLine: number,
+        getText: LineTextProvider,
+    ): void {
+        // Resume from the last checkpoint at or before the first unscanned line
+        const checkpointIndex = Math.min(
+            state.checkpoints.length - 1,
+            Math.floor(state.parents.length / CHECKPOINT_INTERVAL),
+        );
+        let scan = state.checkpoints[checkpointIndex];
+        state.parents.length = checkpointIndex * CHECKPOINT_INTERVAL;
+        state.inComment.length = state.parents.length;
+
+        for (let i = state.parents.length; i <= targetLine; i++) {
+            if (i % CHECKPOINT_INTERVAL === 0) state.checkpoints[i / CHECKPOINT_INTERVAL] = scan;
+
+            const isContinuation = this.continuesStatement(syntax, scan);
+            const statementStart = isContinuation ? scan.statementStart : i;
+            state.parents[i] = isContinuation ? statementStart : -1;
+            state.inComment[i] = scan.openSpan?.isComment ?? false;
+            scan = { ...this.scanLine(syntax, getText(i), scan), statementStart };
+        }
+    }
+
+    private static continuesStatement(syntax: LanguageSyntax, scan: ScanState): boolean {
+        if (scan.escapedNewline) return true;
+        // Block comments keep their own indentation; open strings carry the statement on
+        if (scan.openSpan !== null) return !scan.openSpan.isComment;
+
+        // In brace languages, array literals hold blocks of their own (`[{`), so their
+        // elements are indented by level like the objects between them
+        const innermost = scan.brackets[scan.brackets.length - 1];
+        return (
+            innermost === '(' ||
+            ((innermost === '[' || innermost === '{') && syntax.bracesAreLiterals)
+        );
+    }
+
+    private static scanLine(
+        syntax: LanguageSyntax,
+        text: string,
+        start: ScanState,
+    ): Omit<ScanState, 'statementStart'> {
+        let brackets = start.brackets;
+
+        const { openSpan, lastCodeChar } = SyntaxScanner.scanLine(
+            syntax,
+            text,
+            start.openSpan,
+            (token) => {
+                if (token === '(' || token === '[' || token === '{') {
+                    brackets += token;
+                    return;
+                }
+                const opener = MATCHING_OPENER[token];
+                if (opener === undefined || opener === 'begin') return;
+                const index = brackets.lastIndexOf(opener);
+                // Unbalanced closers are ignored rather than unwinding unrelated brackets
+                if (index !== -1) brackets = brackets.slice(0, index);
+            },
+        );
+
+        const escapedNewline =
+            openSpan === null && lastCodeChar !== -1 && text[lastCodeChar] === '\\';
+        return { brackets, openSpan, escapedNewline };
+    }
+}
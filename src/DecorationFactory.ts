@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ColorUtils } from './ColorUtils';
 import { IndicatorStyle, type IndentSpectraConfig } from './ConfigurationManager';
+import type { VirtualGuide } from './DecorationGenerator';
 
 export interface DecorationOptions {
     color: string;
@@ -15,6 +16,14 @@ export interface DecorationResult {
     hash: number;
 }
 
+/** Colours and style used to paint virtual guides on blank lines */
+export interface VirtualGuidePalette {
+    colors: string[];
+    activeColors: string[];
+    indicatorStyle: IndicatorStyle;
+    lightIndicatorWidth: number;
+}
+
 export class DecorationFactory {
     public static createDecorationType(
         options: DecorationOptions,
@@ -96,6 +105,85 @@ export class DecorationFactory {
         });
     }
 
+    public static createVirtualGuidePalette(
+        config: IndentSpectraConfig,
+        themeKind: vscode.ColorThemeKind,
+    ): VirtualGuidePalette {
+        const isLightTheme = themeKind === vscode.ColorThemeKind.Light;
+        return {
+            colors: config.colors,
+            activeColors:
+                config.activeIndentBrightness > 0
+                    ? config.colors.map((color) =>
+                          ColorUtils.brightenColor(
+                              color,
+                              config.activeIndentBrightness,
+                              isLightTheme,
+                          ),
+                      )
+                    : config.colors,
+            indicatorStyle: config.indicatorStyle,
+            lightIndicatorWidth: config.lightIndicatorWidth,
+        };
+    }
+
+    /** Carrier type for virtual guides; each level supplies its own attachment. */
+    public static createVirtualGuideDecoration(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+        });
+    }
+
+    /**
+     * Paints each level of a blank line on its own `before` attachment. The left margin moves
+     * an attachment to its level's column and the right margin takes back its whole advance,
+     * so the cursor and any typed text are not pushed to the right.
+     */
+    public static createVirtualGuideRenderOptions(
+        guide: VirtualGuide,
+        palette: VirtualGuidePalette,
+    ): vscode.DecorationInstanceRenderOptions[] {
+        const attachments: vscode.DecorationInstanceRenderOptions[] = [];
+
+        for (let level = guide.firstLevel; level < guide.depth; level++) {
+            const isActive = guide.activeLevels.includes(level);
+            const colors = isActive ? palette.activeColors : palette.colors;
+            const color = colors[level % (colors.length || 1)] ?? 'transparent';
+            const start = Math.max(0, level * guide.indentSize - guide.startColumn);
+            const end = (level + 1) * guide.indentSize - guide.startColumn;
+
+            if (palette.indicatorStyle === IndicatorStyle.Light) {
+                // A level that starts on real whitespace already has its line there
+                if (level * guide.indentSize < guide.startColumn) continue;
+                const lineWidth = isActive
+                    ? palette.lightIndicatorWidth + 1
+                    : palette.lightIndicatorWidth;
+                attachments.push(this.createGuideAttachment(`${start}ch`, `${lineWidth}px`, color));
+            } else {
+                attachments.push(
+                    this.createGuideAttachment(`${start}ch`, `${end - start}ch`, color),
+                );
+            }
+        }
+
+        return attachments;
+    }
+
+    private static createGuideAttachment(
+        offset: string,
+        width: string,
+        color: string,
+    ): vscode.DecorationInstanceRenderOptions {
+        return {
+            before: {
+                contentText: '\u200b',
+                width,
+                backgroundColor: color,
+                margin: `0 calc(-${offset} - ${width}) 0 ${offset}`,
+            },
+        };
+    }
+
     public static createErrorDecoration(
         config: IndentSpectraConfig,
     ): vscode.TextEditorDecorationType | null {
@@ -117,4 +205,161 @@ export class DecorationFactory {
             backgroundColor: config.mixColor,
         });
     }
+
+    public static createOffGridDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.offGridColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.offGridColor,
+        });
+    }
+
+    public static createAlignmentDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.smartTabs || !config.alignmentColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.alignmentColor,
+        });
+    }
+
+    public static createPolicyDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.policyColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.policyColor,
+        });
+    }
+
+    public static createInvalidWhitespaceDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.invalidWhitespaceColor) {
+            return null;
+        }
+        // Outlined as well, so zero-width characters still leave a visible mark
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.invalidWhitespaceColor,
+            border: `1px solid ${config.invalidWhitespaceColor}`,
+            overviewRulerColor: config.invalidWhitespaceColor,
+            overviewRulerLane: vscode.OverviewRulerLane.Right,
+        });
+    }
+
+    public static createTrailingDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.trailingWhitespaceColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.trailingWhitespaceColor,
+        });
+    }
+
+    public static createBlankWithWhitespaceDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.blankLineWhitespaceColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.blankLineWhitespaceColor,
+        });
+    }
+
+    public static createContinuationDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.continuationLines || !config.continuationColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.continuationColor,
+        });
+    }
+
+    public static createDedentDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.dedentColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.dedentColor,
+        });
+    }
+
+    /** Background and gutter mark for the line that opens the active block. */
+    public static createScopeHeaderDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        return this.createScopeBoundaryDecoration(
+            config.activeScopeHeaderColor,
+            config.activeScopeGutterColor,
+            'M8 16V8h7',
+        );
+    }
+
+    /** Background and gutter mark for the line that closes the active block. */
+    public static createScopeClosingDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        return this.createScopeBoundaryDecoration(
+            config.activeScopeClosingColor,
+            config.activeScopeGutterColor,
+            'M8 0v8h7',
+        );
+    }
+
+    public static createScopeOpenerDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.activeScopeOpenerColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            textDecoration: `underline 2px ${config.activeScopeOpenerColor}`,
+        });
+    }
+
+    /** The gutter mark is a corner bracket drawn with `path`, pointing into the block. */
+    private static createScopeBoundaryDecoration(
+        backgroundColor: string,
+        gutterColor: string,
+        path: string,
+    ): vscode.TextEditorDecorationType | null {
+        if (!backgroundColor && !gutterColor) {
+            return null;
+        }
+        const svg =
+            '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">' +
+            `<path d="${path}" fill="none" stroke="${gutterColor}" stroke-width="2"/></svg>`;
+        return vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            backgroundColor: backgroundColor || undefined,
+            gutterIconPath: gutterColor
+                ? vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`)
+                : undefined,
+        });
+    }
+
+    public static createIndentJumpDecoration(
+        config: IndentSpectraConfig,
+    ): vscode.TextEditorDecorationType | null {
+        if (!config.indentJumpColor) {
+            return null;
+        }
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: config.indentJumpColor,
+        });
+    }
 }
@@ -1,27 +1,84 @@
 import * as vscode from 'vscode';
 import type { LineAnalysis } from './IndentationEngine';
+import type { StructureIssue } from './IndentStructureAnalyzer';
+import type { ScopeResult } from './ScopeFinder';
 
 const YIELD_EVERY_LINES = 200;
 const YIELD_TIMEOUT_MS = 5;
 const VISIBLE_LINE_BUFFER = 50;
+/** How far to look for the non-blank lines around a run of blank lines */
+const MAX_BLANK_RUN_SCAN = 1000;
+/** Lines that close a block: closing brackets, or keywords such as `end`, `fi` and `done` */
+const CLOSING_LINE_REGEX =
+    /^\s*(?:[)\]}]|(?:end|endif|endfor|endwhile|endfunction|endcase|endmodule|fi|done|esac)\b)/;
+/** Characters that open a block at the end of a header line */
+const TRAILING_OPENERS = '{([:';
 
-export interface DecorationResult {
+/** Categories rendered with a single decoration each, on top of the spectrum */
+export const MARKER_KINDS = [
+    'errors',
+    'mixed',
+    'offGrid',
+    'alignment',
+    'policy',
+    'invalidWhitespace',
+    'trailing',
+    'blankWithWhitespace',
+    'continuation',
+    'dedent',
+    'indentJump',
+    'scopeHeader',
+    'scopeClosing',
+    'scopeOpener',
+] as const;
+export type MarkerKind = (typeof MARKER_KINDS)[number];
+export type MarkerRanges = Record<MarkerKind, vscode.Range[]>;
+
+/**
+ * Guide levels drawn on a blank line, where there are no characters to decorate.
+ * Rendered as one attachment per level at the end of the line's whitespace.
+ */
+export interface VirtualGuide {
+    line: number;
+    /** Character the attachment is placed at (the end of the line) */
+    character: number;
+    /** Visual column where the attachment starts */
+    startColumn: number;
+    /** First level drawn by the attachment; lower levels sit on real whitespace */
+    firstLevel: number;
+    /** Number of levels the blank line sits in */
+    depth: number;
+    /** Levels drawn with the active colour */
+    activeLevels: number[];
+    indentSize: number;
+}
+
+export interface DecorationResult extends MarkerRanges {
     spectra: vscode.Range[][];
     activeLevelSpectra: vscode.Range[][];
-    errors: vscode.Range[];
-    mixed: vscode.Range[];
+    virtualGuides: VirtualGuide[];
     processedLines: Set<number>;
 }
 
+export interface GuideOptions {
+    /** Logical width of one indentation level, in columns */
+    indentSize: number;
+    /** Continue guides through blank lines using the depth of the surrounding lines */
+    blankLines: boolean;
+}
+
 export type LineAnalysisProvider = (line: number) => LineAnalysis;
+export type StructureIssueProvider = (line: number) => StructureIssue | null;
 
 export class DecorationGenerator {
     public static async generate(
         doc: vscode.TextDocument,
         visibleRanges: readonly vscode.Range[],
         decoratorCount: number,
-        scope: { highlightLevel: number; blockStart: number; blockEnd: number },
+        scopes: readonly ScopeResult[],
+        guideOptions: GuideOptions,
         analyzeLine: LineAnalysisProvider,
+        structureIssueAt: StructureIssueProvider,
         token: vscode.CancellationToken,
     ): Promise<DecorationResult | null> {
         const lineCount = doc.lineCount;
@@ -34,6 +91,19 @@ export class DecorationGenerator {
         );
         const errors: vscode.Range[] = [];
         const mixed: vscode.Range[] = [];
+        const offGrid: vscode.Range[] = [];
+        const alignment: vscode.Range[] = [];
+        const policy: vscode.Range[] = [];
+        const invalidWhitespace: vscode.Range[] = [];
+        const trailing: vscode.Range[] = [];
+        const blankWithWhitespace: vscode.Range[] = [];
+        const continuation: vscode.Range[] = [];
+        const dedent: vscode.Range[] = [];
+        const indentJump: vscode.Range[] = [];
+        const scopeHeader: vscode.Range[] = [];
+        const scopeClosing: vscode.Range[] = [];
+        const scopeOpener: vscode.Range[] = [];
+        const virtualGuides: VirtualGuide[] = [];
         const linesToProcess = new Set<number>();
 
         // Calculate lines to process
@@ -51,7 +121,36 @@ export class DecorationGenerator {
         const sortedLines = Array.from(linesToProcess).sort((a, b) => a - b);
         let lastYieldTime = performance.now();
 
-        const { highlightLevel, blockStart, blockEnd } = scope;
+        const isBlank = (line: number): boolean => {
+            const lineData = analyzeLine(line);
+            return lineData.isIgnored || lineData.indentLength === doc.lineAt(line).text.length;
+        };
+
+        // A blank line sits at the shallower depth of the non-blank lines around it
+        const blankDepths = new Map<number, number>();
+        const inferBlankDepth = (line: number): number => {
+            const cached = blankDepths.get(line);
+            if (cached !== undefined) return cached;
+
+            let runStart = line;
+            while (runStart > 0 && line - runStart < MAX_BLANK_RUN_SCAN && isBlank(runStart - 1)) {
+                runStart--;
+            }
+            let runEnd = line;
+            while (
+                runEnd < lineCount - 1 &&
+                runEnd - line < MAX_BLANK_RUN_SCAN &&
+                isBlank(runEnd + 1)
+            ) {
+                runEnd++;
+            }
+
+            const prevDepth = runStart > 0 ? analyzeLine(runStart - 1).blocks.length : 0;
+            const nextDepth = runEnd < lineCount - 1 ? analyzeLine(runEnd + 1).blocks.length : 0;
+            const depth = Math.min(prevDepth, nextDepth);
+            for (let j = runStart; j <= runEnd; j++) blankDepths.set(j, depth);
+            return depth;
+        };
 
         for (let idx = 0; idx < sortedLines.length; idx++) {
             const i = sortedLines[idx];
@@ -71,15 +170,42 @@ export class DecorationGenerator {
 
             if (lineData.isIgnored) continue;
 
-            const inActiveBlock = i >= blockStart && i <= blockEnd;
+            const activeLevels: number[] = [];
+            for (const scope of scopes) {
+                if (i >= scope.blockStart && i <= scope.blockEnd) {
+                    activeLevels.push(scope.highlightLevel);
+                }
+            }
+
+            let blockEnds = lineData.blocks;
+            if (guideOptions.blankLines && isBlank(i)) {
+                const depth = inferBlankDepth(i);
+                blockEnds = blockEnds.slice(0, depth);
+                const fullLevels = blockEnds.length;
+                if (depth > fullLevels) {
+                    // Whitespace that stops part-way into a level still carries its colour
+                    if (lineData.indentLength > (blockEnds[fullLevels - 1] ?? 0)) {
+                        blockEnds.push(lineData.indentLength);
+                    }
+                    virtualGuides.push({
+                        line: i,
+                        character: lineData.indentLength,
+                        startColumn: lineData.visualWidth,
+                        firstLevel: fullLevels,
+                        depth,
+                        activeLevels,
+                        indentSize: guideOptions.indentSize,
+                    });
+                }
+            }
 
             // Generate spectrum decorations (indent guides)
-            for (let j = 0; j < lineData.blocks.length; j++) {
-                const start = j === 0 ? 0 : lineData.blocks[j - 1];
-                const range = new vscode.Range(i, start, i, lineData.blocks[j]);
+            for (let j = 0; j < blockEnds.length; j++) {
+                const start = j === 0 ? 0 : blockEnds[j - 1];
+                const range = new vscode.Range(i, start, i, blockEnds[j]);
                 const decoratorIndex = j % (decoratorCount || 1);
 
-                if (inActiveBlock && j === highlightLevel) {
+                if (activeLevels.includes(j)) {
                     activeLevelSpectra[decoratorIndex].push(range);
                 } else {
                     spectra[decoratorIndex].push(range);
@@ -96,8 +222,91 @@ export class DecorationGenerator {
                     new vscode.Range(i, 0, i, lineData.blocks[lineData.blocks.length - 1] ?? 0),
                 );
             }
+            if (lineData.isOffGrid) {
+                offGrid.push(new vscode.Range(i, 0, i, lineData.indentLength));
+            }
+            if (lineData.alignmentStart >= 0) {
+                alignment.push(
+                    new vscode.Range(i, lineData.alignmentStart, i, lineData.indentLength),
+                );
+            }
+            if (lineData.isPolicyViolation) {
+                policy.push(new vscode.Range(i, 0, i, lineData.indentLength));
+            }
+
+            for (const position of lineData.invalidWhitespace) {
+                invalidWhitespace.push(new vscode.Range(i, position, i, position + 1));
+            }
+            if (lineData.trailingStart >= 0) {
+                const lineEnd = doc.lineAt(i).text.length;
+                trailing.push(new vscode.Range(i, lineData.trailingStart, i, lineEnd));
+            }
+            if (lineData.isBlankWithWhitespace) {
+                blankWithWhitespace.push(new vscode.Range(i, 0, i, lineData.indentLength));
+            }
+            if (lineData.isContinuation) {
+                const start = lineData.blocks[lineData.blocks.length - 1] ?? 0;
+                if (start < lineData.indentLength) {
+                    continuation.push(new vscode.Range(i, start, i, lineData.indentLength));
+                }
+            }
+
+            // Boundaries of the active blocks; a scan that ran into the file edge has none
+            for (const scope of scopes) {
+                const isBoundary = lineData.blocks.length <= scope.highlightLevel;
+                if (i === scope.blockStart && isBoundary) {
+                    scopeHeader.push(new vscode.Range(i, 0, i, 0));
+                    const opener = this.findOpenerRange(doc.lineAt(i).text, i);
+                    if (opener) scopeOpener.push(opener);
+                } else if (
+                    i === scope.blockEnd &&
+                    isBoundary &&
+                    CLOSING_LINE_REGEX.test(doc.lineAt(i).text)
+                ) {
+                    scopeClosing.push(new vscode.Range(i, 0, i, 0));
+                }
+            }
+
+            const structureIssue = structureIssueAt(i);
+            if (structureIssue === 'dedent') {
+                dedent.push(new vscode.Range(i, 0, i, lineData.indentLength));
+            } else if (structureIssue === 'jump') {
+                indentJump.push(new vscode.Range(i, 0, i, lineData.indentLength));
+            }
+        }
+
+        return {
+            spectra,
+            activeLevelSpectra,
+            virtualGuides,
+            errors,
+            mixed,
+            offGrid,
+            alignment,
+            policy,
+            invalidWhitespace,
+            trailing,
+            blankWithWhitespace,
+            continuation,
+            dedent,
+            indentJump,
+            scopeHeader,
+            scopeClosing,
+            scopeOpener,
+            processedLines: linesToProcess,
+        };
+    }
+
+    /** The bracket or colon that ends a header line, or else the header's first word. */
+    private static findOpenerRange(text: string, line: number): vscode.Range | null {
+        const end = text.trimEnd().length;
+        if (end === 0) return null;
+        if (TRAILING_OPENERS.includes(text[end - 1])) {
+            return new vscode.Range(line, end - 1, line, end);
         }
 
-        return { spectra, activeLevelSpectra, errors, mixed, processedLines: linesToProcess };
+        const start = text.length - text.trimStart().length;
+        const word = /^\w+/.exec(text.slice(start));
+        return word ? new vscode.Range(line, start, line, start + word[0].length) : null;
     }
 }
@@ -1,14 +1,21 @@
-import type * as vscode from 'vscode';
+import * as vscode from 'vscode';
 import { ColorUtils } from './ColorUtils';
-import { DecorationFactory } from './DecorationFactory';
+import { DecorationFactory, type VirtualGuidePalette } from './DecorationFactory';
 import type { IndentSpectraConfig } from './ConfigurationManager';
 import { ConfigUtils } from './ConfigUtils';
+import {
+    MARKER_KINDS,
+    type DecorationResult,
+    type MarkerKind,
+    type MarkerRanges,
+    type VirtualGuide,
+} from './DecorationGenerator';
 
 interface DecorationState {
     spectraHashes: number[];
     activeLevelSpectraHashes: number[];
-    errorsHash: number;
-    mixedHash: number;
+    virtualGuidesHash: number;
+    markerHashes: Record<MarkerKind, number>;
     documentVersion: number;
     isDirty: boolean;
 }
@@ -93,8 +100,9 @@ export class DecorationManager implements vscode.Disposable {
 export class DecorationSuite implements vscode.Disposable {
     private decorators: vscode.TextEditorDecorationType[] = [];
     private activeLevelDecorators: vscode.TextEditorDecorationType[] = [];
-    private errorDecorator?: vscode.TextEditorDecorationType;
-    private mixDecorator?: vscode.TextEditorDecorationType;
+    private markerDecorators: Partial<Record<MarkerKind, vscode.TextEditorDecorationType>> = {};
+    private virtualGuideDecorator?: vscode.TextEditorDecorationType;
+    private virtualGuidePalette?: VirtualGuidePalette;
     private lastState = new Map<string, DecorationState>();
 
     // Persistent decoration state for entire document
@@ -103,8 +111,8 @@ export class DecorationSuite implements vscode.Disposable {
         {
             spectra: vscode.Range[][];
             activeLevelSpectra: vscode.Range[][];
-            errors: vscode.Range[];
-            mixed: vscode.Range[];
+            virtualGuides: VirtualGuide[];
+            markers: MarkerRanges;
         }
     >();
 
@@ -118,8 +126,26 @@ export class DecorationSuite implements vscode.Disposable {
             config,
             themeKind,
         );
-        this.errorDecorator = DecorationFactory.createErrorDecoration(config) ?? undefined;
-        this.mixDecorator = DecorationFactory.createMixDecoration(config) ?? undefined;
+        this.markerDecorators = {
+            errors: DecorationFactory.createErrorDecoration(config) ?? undefined,
+            mixed: DecorationFactory.createMixDecoration(config) ?? undefined,
+            offGrid: DecorationFactory.createOffGridDecoration(config) ?? undefined,
+            alignment: DecorationFactory.createAlignmentDecoration(config) ?? undefined,
+            policy: DecorationFactory.createPolicyDecoration(config) ?? undefined,
+            invalidWhitespace:
+                DecorationFactory.createInvalidWhitespaceDecoration(config) ?? undefined,
+            trailing: DecorationFactory.createTrailingDecoration(config) ?? undefined,
+            blankWithWhitespace:
+                DecorationFactory.createBlankWithWhitespaceDecoration(config) ?? undefined,
+            continuation: DecorationFactory.createContinuationDecoration(config) ?? undefined,
+            dedent: DecorationFactory.createDedentDecoration(config) ?? undefined,
+            indentJump: DecorationFactory.createIndentJumpDecoration(config) ?? undefined,
+            scopeHeader: DecorationFactory.createScopeHeaderDecoration(config) ?? undefined,
+            scopeClosing: DecorationFactory.createScopeClosingDecoration(config) ?? undefined,
+            scopeOpener: DecorationFactory.createScopeOpenerDecoration(config) ?? undefined,
+        };
+        this.virtualGuideDecorator = DecorationFactory.createVirtualGuideDecoration();
+        this.virtualGuidePalette = DecorationFactory.createVirtualGuidePalette(config, themeKind);
     }
 
     private rangeHashCache = new WeakMap<vscode.Range[], number>();
@@ -146,15 +172,62 @@ export class DecorationSuite implements vscode.Disposable {
         return result;
     }
 
+    private hashMarkers(markers: MarkerRanges): Record<MarkerKind, number> {
+        const hashes = {} as Record<MarkerKind, number>;
+        for (const kind of MARKER_KINDS) {
+            hashes[kind] = this.hashRanges(markers[kind]);
+        }
+        return hashes;
+    }
+
+    private hashVirtualGuides(guides: VirtualGuide[]): number {
+        let hash = guides.length * 31;
+        for (const guide of guides) {
+            hash = (hash << 5) - hash + guide.line;
+            hash = (hash << 5) - hash + guide.character;
+            hash = (hash << 5) - hash + guide.startColumn;
+            hash = (hash << 5) - hash + guide.firstLevel;
+            hash = (hash << 5) - hash + guide.depth;
+            hash = (hash << 5) - hash + guide.activeLevels.length;
+            for (const level of guide.activeLevels) hash = (hash << 5) - hash + level;
+            hash = (hash << 5) - hash + guide.indentSize;
+        }
+        return hash >>> 0;
+    }
+
+    private applyVirtualGuides(editor: vscode.TextEditor, guides: VirtualGuide[]): void {
+        if (!this.virtualGuideDecorator || !this.virtualGuidePalette) return;
+        const palette = this.virtualGuidePalette;
+        editor.setDecorations(
+            this.virtualGuideDecorator,
+            guides.flatMap((guide) => {
+                const range = new vscode.Range(
+                    guide.line,
+                    guide.character,
+                    guide.line,
+                    guide.character,
+                );
+                return DecorationFactory.createVirtualGuideRenderOptions(guide, palette).map(
+                    (renderOptions) => ({ range, renderOptions }),
+                );
+            }),
+        );
+    }
+
+    private static emptyMarkers(): MarkerRanges {
+        const markers = {} as MarkerRanges;
+        for (const kind of MARKER_KINDS) {
+            markers[kind] = [];
+        }
+        return markers;
+    }
+
     public apply(
         editor: vscode.TextEditor,
-        spectra: vscode.Range[][],
-        activeLevelSpectra: vscode.Range[][],
-        errors: vscode.Range[],
-        mixed: vscode.Range[],
-        processedLines?: Set<number>,
+        result: DecorationResult,
         forceUpdate: boolean = false,
     ): void {
+        const { spectra, activeLevelSpectra, processedLines } = result;
         const editorKey = editor.document.uri.toString();
         const lastState = this.lastState.get(editorKey);
         const currentVersion = editor.document.version;
@@ -168,14 +241,14 @@ export class DecorationSuite implements vscode.Disposable {
                     { length: this.activeLevelDecorators.length },
                     () => [],
                 ),
-                errors: [],
-                mixed: [],
+                virtualGuides: [],
+                markers: DecorationSuite.emptyMarkers(),
             };
             this.documentDecorations.set(editorKey, docDecorations);
         }
 
         // If we have processed lines, merge decorations intelligently
-        if (processedLines && processedLines.size > 0) {
+        if (processedLines.size > 0) {
             // Remove decorations for processed lines from existing state
             for (let i = 0; i < docDecorations.spectra.length; i++) {
                 docDecorations.spectra[i] = docDecorations.spectra[i].filter(
@@ -187,12 +260,14 @@ export class DecorationSuite implements vscode.Disposable {
                     (range) => !processedLines.has(range.start.line),
                 );
             }
-            docDecorations.errors = docDecorations.errors.filter(
-                (range) => !processedLines.has(range.start.line),
-            );
-            docDecorations.mixed = docDecorations.mixed.filter(
-                (range) => !processedLines.has(range.start.line),
+            docDecorations.virtualGuides = docDecorations.virtualGuides.filter(
+                (guide) => !processedLines.has(guide.line),
             );
+            for (const kind of MARKER_KINDS) {
+                docDecorations.markers[kind] = docDecorations.markers[kind].filter(
+                    (range) => !processedLines.has(range.start.line),
+                );
+            }
 
             // Add new decorations for processed lines
             for (let i = 0; i < spectra.length; i++) {
@@ -201,23 +276,28 @@ export class DecorationSuite implements vscode.Disposable {
             for (let i = 0; i < activeLevelSpectra.length; i++) {
                 docDecorations.activeLevelSpectra[i].push(...activeLevelSpectra[i]);
             }
-            docDecorations.errors.push(...errors);
-            docDecorations.mixed.push(...mixed);
+            docDecorations.virtualGuides.push(...result.virtualGuides);
+            for (const kind of MARKER_KINDS) {
+                docDecorations.markers[kind].push(...result[kind]);
+            }
         } else {
             // Full replacement
             docDecorations.spectra = spectra;
             docDecorations.activeLevelSpectra = activeLevelSpectra;
-            docDecorations.errors = errors;
-            docDecorations.mixed = mixed;
+            docDecorations.virtualGuides = result.virtualGuides;
+            for (const kind of MARKER_KINDS) {
+                docDecorations.markers[kind] = result[kind];
+            }
         }
 
+        const markers = docDecorations.markers;
         const newState: DecorationState = {
             spectraHashes: docDecorations.spectra.map(this.hashRanges.bind(this)),
             activeLevelSpectraHashes: docDecorations.activeLevelSpectra.map(
                 this.hashRanges.bind(this),
             ),
-            errorsHash: this.hashRanges(docDecorations.errors),
-            mixedHash: this.hashRanges(docDecorations.mixed),
+            virtualGuidesHash: this.hashVirtualGuides(docDecorations.virtualGuides),
+            markerHashes: this.hashMarkers(markers),
             documentVersion: currentVersion,
             isDirty: forceUpdate || lastState?.documentVersion !== currentVersion,
         };
@@ -236,11 +316,12 @@ export class DecorationSuite implements vscode.Disposable {
                     docDecorations.activeLevelSpectra[i],
                 );
             }
-            if (this.errorDecorator) {
-                editor.setDecorations(this.errorDecorator, docDecorations.errors);
-            }
-            if (this.mixDecorator) {
-                editor.setDecorations(this.mixDecorator, docDecorations.mixed);
+            this.applyVirtualGuides(editor, docDecorations.virtualGuides);
+            for (const kind of MARKER_KINDS) {
+                const decorator = this.markerDecorators[kind];
+                if (decorator) {
+                    editor.setDecorations(decorator, markers[kind]);
+                }
             }
         } else {
             // Only update decorations whose hashes have changed
@@ -259,11 +340,14 @@ export class DecorationSuite implements vscode.Disposable {
                     );
                 }
             }
-            if (this.errorDecorator && lastState.errorsHash !== newState.errorsHash) {
-                editor.setDecorations(this.errorDecorator, docDecorations.errors);
+            if (lastState.virtualGuidesHash !== newState.virtualGuidesHash) {
+                this.applyVirtualGuides(editor, docDecorations.virtualGuides);
             }
-            if (this.mixDecorator && lastState.mixedHash !== newState.mixedHash) {
-                editor.setDecorations(this.mixDecorator, docDecorations.mixed);
+            for (const kind of MARKER_KINDS) {
+                const decorator = this.markerDecorators[kind];
+                if (decorator && lastState.markerHashes[kind] !== newState.markerHashes[kind]) {
+                    editor.setDecorations(decorator, markers[kind]);
+                }
             }
         }
 
@@ -287,10 +371,12 @@ export class DecorationSuite implements vscode.Disposable {
         this.decorators = [];
         this.activeLevelDecorators.forEach((d) => d.dispose());
         this.activeLevelDecorators = [];
-        this.errorDecorator?.dispose();
-        this.errorDecorator = undefined;
-        this.mixDecorator?.dispose();
-        this.mixDecorator = undefined;
+        for (const kind of MARKER_KINDS) {
+            this.markerDecorators[kind]?.dispose();
+        }
+        this.markerDecorators = {};
+        this.virtualGuideDecorator?.dispose();
+        this.virtualGuideDecorator = undefined;
         this.lastState.clear();
         this.documentDecorations.clear();
         this.rangeHashCache = new WeakMap();
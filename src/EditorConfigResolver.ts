@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+import { LRUCache } from './LRUCache';
+
+export interface EditorConfigIndent {
+    indentStyle?: 'tab' | 'space';
+    /** Columns per indent level; resolved from `tab_width` when `indent_size = tab` */
+    indentSize?: number;
+    tabWidth?: number;
+}
+
+interface EditorConfigSection {
+    pattern: RegExp;
+    properties: Map<string, string>;
+}
+
+export interface EditorConfigFile {
+    isRoot: boolean;
+    sections: EditorConfigSection[];
+}
+
+const EDITORCONFIG_FILE = '.editorconfig';
+const MAX_CACHED_DIRECTORIES = 200;
+const MAX_BRACE_RANGE = 1000;
+
+export class EditorConfigResolver implements vscode.Disposable {
+    private directoryCache = new LRUCache<string, Promise<EditorConfigFile | null>>(
+        MAX_CACHED_DIRECTORIES,
+    );
+    private watcher: vscode.FileSystemWatcher;
+    private _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        this.watcher = vscode.workspace.createFileSystemWatcher(`**/${EDITORCONFIG_FILE}`);
+        const invalidate = (): void => {
+            this.directoryCache.clear();
+            this._onDidChange.fire();
+        };
+        this.watcher.onDidChange(invalidate);
+        this.watcher.onDidCreate(invalidate);
+        this.watcher.onDidDelete(invalidate);
+    }
+
+    /**
+     * Resolves the indentation properties that apply to a file by walking up its directories,
+     * stopping at the first `.editorconfig` marked `root = true`.
+     */
+    public async resolve(uri: vscode.Uri): Promise<EditorConfigIndent | null> {
+        if (uri.scheme === 'untitled') return null;
+
+        const segments = uri.path.split('/');
+        const fileName = segments.pop() ?? '';
+        const files: { file: EditorConfigFile; relativePath: string }[] = [];
+        let relativePath = fileName;
+
+        while (segments.length > 0) {
+            const dirPath = segments.join('/') || '/';
+            const file = await this.loadDirectory(uri.with({ path: dirPath }));
+            if (file) {
+                files.push({ file, relativePath });
+                if (file.isRoot) break;
+            }
+            relativePath = `${segments.pop()}/${relativePath}`;
+        }
+
+        if (files.length === 0) return null;
+
+        // Nearer files and later sections take precedence
+        const properties = new Map<string, string>();
+        for (let i = files.length - 1; i >= 0; i--) {
+            for (const section of files[i].file.sections) {
+                if (!section.pattern.test(files[i].relativePath)) continue;
+                for (const [key, value] of section.properties) {
+                    properties.set(key, value);
+                }
+            }
+        }
+
+        return EditorConfigResolver.toIndent(properties);
+    }
+
+    /** Files above the workspace are not watched, so they are read again on every walk. */
+    private loadDirectory(dir: vscode.Uri): Promise<EditorConfigFile | null> {
+        const key = dir.toString();
+        let pending = this.directoryCache.get(key);
+        if (!pending) {
+            pending = this.readFile(vscode.Uri.joinPath(dir, EDITORCONFIG_FILE));
+            if (vscode.workspace.getWorkspaceFolder(dir)) this.directoryCache.set(key, pending);
+        }
+        return pending;
+    }
+
+    private async readFile(uri: vscode.Uri): Promise<EditorConfigFile | null> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            return EditorConfigResolver.parse(new TextDecoder().decode(bytes));
+        } catch {
+            return null;
+        }
+    }
+
+    public static parse(text: string): EditorConfigFile {
+        const result: EditorConfigFile = { isRoot: false, sections: [] };
+        let current: EditorConfigSection | null = null;
+
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            if (line.length === 0 || line.startsWith('#') || line.startsWith(';')) continue;
+
+            const sectionMatch = line.match(/^\[(.+)\]$/);
+            if (sectionMatch) {
+                current = {
+                    pattern: this.globToRegExp(sectionMatch[1]),
+                    properties: new Map(),
+                };
+                result.sections.push(current);
+                continue;
+            }
+
+            const separator = line.indexOf('=');
+            if (separator <= 0) continue;
+
+            const key = line.slice(0, separator).trim().toLowerCase();
+            const value = line
+                .slice(separator + 1)
+                .trim()
+                .toLowerCase();
+
+            if (current) {
+                current.properties.set(key, value);
+            } else if (key === 'root') {
+                result.isRoot = value === 'true';
+            }
+        }
+
+        return result;
+    }
+
+    /** Converts an EditorConfig section glob into a RegExp matched against a relative path. */
+    public static globToRegExp(glob: string): RegExp {
+        // Globs without a slash match the file name in any subdirectory
+        const anchored = glob.includes('/');
+        const source = glob.startsWith('/') ? glob.slice(1) : glob;
+        let pattern = '';
+        let braceDepth = 0;
+
+        for (let i = 0; i < source.length; i++) {
+            const char = source[i];
+
+            if (char === '\\' && i + 1 < source.length) {
+                pattern += this.escapeRegExp(source[++i]);
+            } else if (char === '*') {
+                if (source[i + 1] === '*' && source[i + 2] === '/') {
+                    // `**/` also matches no directory at all
+                    pattern += '(?:.*/)?';
+                    i += 2;
+                } else if (source[i + 1] === '*') {
+                    pattern += '.*';
+                    i++;
+                } else {
+                    pattern += '[^/]*';
+                }
+            } else if (char === '?') {
+                pattern += '[^/]';
+            } else if (char === '[') {
+                const close = source.indexOf(']', i + 1);
+                if (close === -1) {
+                    pattern += '\\[';
+                } else {
+                    let set = source.slice(i + 1, close).replace(/\\/g, '\\\\');
+                    if (set.startsWith('!')) set = '^' + set.slice(1);
+                    pattern += `[${set}]`;
+                    i = close;
+                }
+            } else if (char === '{') {
+                const close = source.indexOf('}', i + 1);
+                const range =
+                    close === -1 ? null : source.slice(i + 1, close).match(/^(-?\d+)\.\.(-?\d+)$/);
+                if (range) {
+                    pattern += this.numericRangePattern(Number(range[1]), Number(range[2]));
+                    i = close;
+                } else if (close !== -1 && source.slice(i + 1, close).includes(',')) {
+                    pattern += '(?:';
+                    braceDepth++;
+                } else {
+                    pattern += '\\{';
+                }
+            } else if (char === ',' && braceDepth > 0) {
+                pattern += '|';
+            } else if (char === '}' && braceDepth > 0) {
+                pattern += ')';
+                braceDepth--;
+            } else {
+                pattern += this.escapeRegExp(char);
+            }
+        }
+
+        return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${pattern}$`);
+    }
+
+    private static numericRangePattern(from: number, to: number): string {
+        const low = Math.min(from, to);
+        const high = Math.max(from, to);
+        if (high - low > MAX_BRACE_RANGE) return '-?\\d+';
+
+        const values: string[] = [];
+        for (let n = low; n <= high; n++) values.push(String(n));
+        return `(?:${values.join('|')})`;
+    }
+
+    private static escapeRegExp(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+
+    private static toIndent(properties: Map<string, string>): EditorConfigIndent | null {
+        const style = properties.get('indent_style');
+        const size = properties.get('indent_size');
+        const tabWidth = this.parseWidth(properties.get('tab_width'));
+
+        const indent: EditorConfigIndent = {};
+        if (style === 'tab' || style === 'space') indent.indentStyle = style;
+
+        const numericSize = this.parseWidth(size);
+        indent.tabWidth = tabWidth ?? numericSize;
+
+        if (numericSize !== undefined) {
+            indent.indentSize = numericSize;
+        } else if (size === 'tab' || (size === undefined && style === 'tab')) {
+            indent.indentSize = indent.tabWidth;
+        }
+
+        const isEmpty =
+            indent.indentStyle === undefined &&
+            indent.indentSize === undefined &&
+            indent.tabWidth === undefined;
+        return isEmpty ? null : indent;
+    }
+
+    private static parseWidth(value: string | undefined): number | undefined {
+        if (value === undefined) return undefined;
+        const width = parseInt(value, 10);
+        return width > 0 ? width : undefined;
+    }
+
+    public dispose(): void {
+        this.watcher.dispose();
+        this._onDidChange.dispose();
+        this.directoryCache.clear();
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+import { INDENT_FIXES, IndentationFixer, type IndentFix } from './IndentationFixer';
+
+const FIX_TITLES: Record<IndentFix, string> = {
+    tabs: 'Convert indentation to tabs',
+    spaces: 'Convert indentation to spaces',
+    snap: 'Snap to nearest indent level',
+    matchPrevious: "Match previous line's indentation",
+};
+
+/** Copying the previous line depends on the order lines are fixed in, so it has no fix-all */
+const FIX_ALL_FIXES: readonly IndentFix[] = ['tabs', 'spaces', 'snap'];
+
+type FixAnalysis = Pick<DocumentAnalysis, 'widths' | 'analyzeLine'>;
+
+/** A fix-all action whose edit is only built once it is resolved */
+class FixAllAction extends vscode.CodeAction {
+    constructor(
+        title: string,
+        public readonly doc: vscode.TextDocument,
+        public readonly lines: number[],
+        public readonly analysis: FixAnalysis,
+        public readonly fix: IndentFix,
+    ) {
+        super(title, vscode.CodeActionKind.QuickFix);
+    }
+}
+
+export class IndentCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private readonly analyze: DocumentAnalyzer) {}
+
+    public async provideCodeActions(
+        doc: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.CodeAction[]> {
+        const analysis = await this.analyze(doc, token);
+        if (!analysis || token.isCancellationRequested) return [];
+        return IndentCodeActionProvider.computeActions(doc, range, analysis, context.diagnostics);
+    }
+
+    /** Builds the edit of a fix-all action, which can span the whole document. */
+    public resolveCodeAction(action: vscode.CodeAction): vscode.CodeAction {
+        if (!(action instanceof FixAllAction) || action.edit) return action;
+        const { doc, lines, analysis, fix } = action;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.set(
+            doc.uri,
+            IndentationFixer.createEdits(doc, lines, analysis.analyzeLine, analysis.widths, fix),
+        );
+        return action;
+    }
+
+    /**
+     * Line fixes for the first flagged line in `range`, then fix-all variants for the flagged
+     * lines of a multi-line selection and of the whole document. Fix-all actions come without
+     * an edit; `resolveCodeAction` fills it in when one is picked.
+     */
+    public static computeActions(
+        doc: vscode.TextDocument,
+        range: vscode.Range,
+        analysis: FixAnalysis,
+        diagnostics: readonly vscode.Diagnostic[] = [],
+    ): vscode.CodeAction[] {
+        const { analyzeLine, widths } = analysis;
+        const selected = this.flaggedLines(analysis, range.start.line, range.end.line);
+        if (selected.length === 0) return [];
+
+        const actions: vscode.CodeAction[] = [];
+        const line = selected[0];
+        for (const fix of INDENT_FIXES) {
+            const action = this.createAction(
+                doc,
+                FIX_TITLES[fix],
+                IndentationFixer.createEdits(doc, [line], analyzeLine, widths, fix),
+            );
+            if (!action) continue;
+            action.diagnostics = diagnostics.filter(
+                (diagnostic) => diagnostic.range.start.line === line,
+            );
+            action.isPreferred = fix === 'snap';
+            actions.push(action);
+        }
+
+        // The document variant is left out when the selection already holds every flagged line
+        const selection = range.isSingleLine ? [] : selected;
+        const document = this.flaggedLines(analysis, 0, doc.lineCount - 1);
+        const scopes: [string, number[]][] = [
+            ['in selection', selection],
+            ['in document', document.length > selection.length ? document : []],
+        ];
+        for (const [suffix, lines] of scopes) {
+            if (lines.length < 2) continue;
+            for (const fix of FIX_ALL_FIXES) {
+                actions.push(
+                    new FixAllAction(`${FIX_TITLES[fix]} ${suffix}`, doc, lines, analysis, fix),
+                );
+            }
+        }
+
+        return actions;
+    }
+
+    private static flaggedLines(
+        analysis: FixAnalysis,
+        startLine: number,
+        endLine: number,
+    ): number[] {
+        const lines: number[] = [];
+        for (let i = startLine; i <= endLine; i++) {
+            if (IndentationFixer.needsFix(analysis.analyzeLine(i))) lines.push(i);
+        }
+        return lines;
+    }
+
+    /** All edits go into one workspace edit, so the action is undone in one step. */
+    private static createAction(
+        doc: vscode.TextDocument,
+        title: string,
+        edits: vscode.TextEdit[],
+    ): vscode.CodeAction | null {
+        if (edits.length === 0) return null;
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.set(doc.uri, edits);
+        return action;
+    }
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+
+export const DIAGNOSTIC_CATEGORIES = ['error', 'mixed', 'offGrid'] as const;
+export type DiagnosticCategory = (typeof DIAGNOSTIC_CATEGORIES)[number];
+/** `null` turns a category off */
+export type DiagnosticSeverities = Record<DiagnosticCategory, vscode.DiagnosticSeverity | null>;
+
+export const DIAGNOSTIC_CODES: Record<DiagnosticCategory, string> = {
+    error: 'indentation-error',
+    mixed: 'mixed-indentation',
+    offGrid: 'off-grid-indentation',
+};
+
+const DEFAULT_SEVERITIES: DiagnosticSeverities = {
+    error: vscode.DiagnosticSeverity.Warning,
+    mixed: vscode.DiagnosticSeverity.Warning,
+    offGrid: vscode.DiagnosticSeverity.Information,
+};
+
+const SEVERITY_NAMES: Record<string, vscode.DiagnosticSeverity | null> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+    off: null,
+};
+
+/** Documents backed by something the user edits, not output panels or diff views */
+const DIAGNOSTIC_SCHEMES = new Set(['file', 'untitled', 'vscode-remote', 'vscode-vfs']);
+
+const SOURCE = 'Indent Spectra';
+
+type DiagnosticAnalysis = Pick<DocumentAnalysis, 'widths' | 'analyzeLine'>;
+
+interface PendingRun {
+    timeout: NodeJS.Timeout;
+    tokenSource: vscode.CancellationTokenSource;
+}
+
+export class IndentDiagnostics implements vscode.Disposable {
+    private collection = vscode.languages.createDiagnosticCollection('indentSpectra');
+    private pending = new Map<string, PendingRun>();
+
+    constructor(private readonly analyze: DocumentAnalyzer) {}
+
+    /** Merges user severity names over the defaults; unknown names keep the default. */
+    public static resolveSeverities(raw: Record<string, string>): DiagnosticSeverities {
+        const severities = { ...DEFAULT_SEVERITIES };
+        for (const category of DIAGNOSTIC_CATEGORIES) {
+            const name = raw?.[category];
+            if (typeof name === 'string' && name in SEVERITY_NAMES) {
+                severities[category] = SEVERITY_NAMES[name];
+            }
+        }
+        return severities;
+    }
+
+    /**
+     * One diagnostic per category and line, covering the line's indentation. Lines come from
+     * the shared line cache, so re-running after an edit only analyses the changed lines.
+     */
+    public static computeDiagnostics(
+        doc: vscode.TextDocument,
+        analysis: DiagnosticAnalysis,
+        severities: DiagnosticSeverities,
+    ): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const { indentSize } = analysis.widths;
+
+        for (let i = 0; i < doc.lineCount; i++) {
+            const line = analysis.analyzeLine(i);
+            if (!line.isError && !line.isMixed && !line.isOffGrid) continue;
+
+            const indent = this.describeIndent(doc.lineAt(i).text.slice(0, line.indentLength));
+            const range = new vscode.Range(i, 0, i, line.indentLength);
+            const add = (category: DiagnosticCategory, message: string): void => {
+                const severity = severities[category];
+                if (severity === null) return;
+                const diagnostic = new vscode.Diagnostic(range, message, severity);
+                diagnostic.source = SOURCE;
+                diagnostic.code = DIAGNOSTIC_CODES[category];
+                diagnostics.push(diagnostic);
+            };
+
+            if (line.isError) {
+                add(
+                    'error',
+                    `Indentation of ${indent} (width ${line.visualWidth}) is not a multiple of ${indentSize}`,
+                );
+            }
+            if (line.isMixed) {
+                add('mixed', `Indentation mixes ${indent}`);
+            }
+            if (line.isOffGrid) {
+                add('offGrid', `Indentation of ${indent} falls between levels of ${indentSize}`);
+            }
+        }
+
+        return diagnostics;
+    }
+
+    public static isSupported(doc: vscode.TextDocument): boolean {
+        return DIAGNOSTIC_SCHEMES.has(doc.uri.scheme);
+    }
+
+    /** Re-analyses the document after `delay`, replacing a run that has not finished yet. */
+    public schedule(
+        doc: vscode.TextDocument,
+        delay: number,
+        severities: DiagnosticSeverities,
+    ): void {
+        if (!IndentDiagnostics.isSupported(doc)) return;
+        const uri = doc.uri.toString();
+        this.cancel(uri);
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        const timeout = setTimeout(async () => {
+            try {
+                if (doc.isClosed) return;
+                const analysis = await this.analyze(doc, tokenSource.token);
+                if (tokenSource.token.isCancellationRequested || doc.isClosed) return;
+                if (!analysis) {
+                    this.collection.delete(doc.uri);
+                    return;
+                }
+                this.collection.set(
+                    doc.uri,
+                    IndentDiagnostics.computeDiagnostics(doc, analysis, severities),
+                );
+            } finally {
+                if (this.pending.get(uri)?.tokenSource === tokenSource) {
+                    this.pending.delete(uri);
+                    tokenSource.dispose();
+                }
+            }
+        }, delay);
+
+        this.pending.set(uri, { timeout, tokenSource });
+    }
+
+    public delete(uri: vscode.Uri): void {
+        this.cancel(uri.toString());
+        this.collection.delete(uri);
+    }
+
+    public clear(): void {
+        for (const uri of [...this.pending.keys()]) this.cancel(uri);
+        this.collection.clear();
+    }
+
+    public dispose(): void {
+        this.clear();
+        this.collection.dispose();
+    }
+
+    private cancel(uri: string): void {
+        const run = this.pending.get(uri);
+        if (!run) return;
+        clearTimeout(run.timeout);
+        run.tokenSource.cancel();
+        run.tokenSource.dispose();
+        this.pending.delete(uri);
+    }
+
+    /** `2 tabs and 3 spaces` */
+    private static describeIndent(indent: string): string {
+        let tabs = 0;
+        let spaces = 0;
+        for (const char of indent) {
+            if (char === '\t') tabs++;
+            else if (char === ' ') spaces++;
+        }
+        const parts: string[] = [];
+        if (tabs > 0) parts.push(`${tabs} ${tabs === 1 ? 'tab' : 'tabs'}`);
+        if (spaces > 0) parts.push(`${spaces} ${spaces === 1 ? 'space' : 'spaces'}`);
+        return parts.join(' and ');
+    }
+}
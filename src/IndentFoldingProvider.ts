@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+
+interface OpenRegion {
+    line: number;
+    depth: number;
+}
+
+export class IndentFoldingProvider implements vscode.FoldingRangeProvider {
+    constructor(private readonly analyze: DocumentAnalyzer) {}
+
+    public async provideFoldingRanges(
+        doc: vscode.TextDocument,
+        _context: vscode.FoldingContext,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.FoldingRange[]> {
+        const analysis = await this.analyze(doc, token);
+        if (!analysis || token.isCancellationRequested) return [];
+        return IndentFoldingProvider.computeRanges(doc, analysis);
+    }
+
+    /**
+     * Folds every line whose following lines are deeper, using the analysed depths so mixed
+     * tabs and spaces fold by level. Ignored lines neither open nor close regions; runs of
+     * them fold on their own as comments.
+     */
+    public static computeRanges(
+        doc: vscode.TextDocument,
+        analysis: Pick<DocumentAnalysis, 'ignoredLines' | 'analyzeLine'>,
+    ): vscode.FoldingRange[] {
+        const { ignoredLines, analyzeLine } = analysis;
+        const ranges: vscode.FoldingRange[] = [];
+        const open: OpenRegion[] = [];
+        let lastContentLine = -1;
+        let ignoredRunStart = -1;
+
+        const closeRegions = (depth: number): void => {
+            while (open.length > 0 && open[open.length - 1].depth >= depth) {
+                const region = open.pop()!;
+                if (lastContentLine > region.line) {
+                    ranges.push(new vscode.FoldingRange(region.line, lastContentLine));
+                }
+            }
+        };
+
+        for (let i = 0; i <= doc.lineCount; i++) {
+            const isIgnored = i < doc.lineCount && ignoredLines.has(i);
+            if (isIgnored && ignoredRunStart === -1) ignoredRunStart = i;
+            if (!isIgnored && ignoredRunStart !== -1) {
+                if (i - 1 > ignoredRunStart) {
+                    ranges.push(
+                        new vscode.FoldingRange(
+                            ignoredRunStart,
+                            i - 1,
+                            vscode.FoldingRangeKind.Comment,
+                        ),
+                    );
+                }
+                ignoredRunStart = -1;
+            }
+            if (isIgnored || i === doc.lineCount || doc.lineAt(i).isEmptyOrWhitespace) continue;
+
+            // Continuation lines belong to the statement above and only extend its region
+            const line = analyzeLine(i);
+            if (!line.isContinuation) {
+                closeRegions(line.blocks.length);
+                open.push({ line: i, depth: line.blocks.length });
+            }
+            lastContentLine = i;
+        }
+        closeRegions(0);
+
+        return ranges.sort((a, b) => a.start - b.start);
+    }
+}
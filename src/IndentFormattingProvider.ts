@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+import { IndentationFixer } from './IndentationFixer';
+
+type FormatAnalysis = Pick<DocumentAnalysis, 'widths' | 'analyzeLine'>;
+
+export class IndentFormattingProvider
+    implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider
+{
+    constructor(
+        private readonly analyze: DocumentAnalyzer,
+        private readonly keepAlignment: () => boolean,
+    ) {}
+
+    public provideDocumentFormattingEdits(
+        doc: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.TextEdit[]> {
+        return this.format(doc, 0, doc.lineCount - 1, options, token);
+    }
+
+    public provideDocumentRangeFormattingEdits(
+        doc: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.TextEdit[]> {
+        return this.format(doc, range.start.line, range.end.line, options, token);
+    }
+
+    /**
+     * Rewrites the indentation of each line from `startLine` to `endLine` at the same depth in
+     * the target style: `tabSize` spaces per level, or levels of the analysed indent size in
+     * tabs of `tabSize` columns. Ignored and blank lines are left alone. Columns past the last
+     * level are dropped unless `keepAlignment` is set; misaligned lines are then snapped to the
+     * nearest level, as on save, and hanging indents of continuation lines are always kept.
+     */
+    public static computeEdits(
+        doc: vscode.TextDocument,
+        startLine: number,
+        endLine: number,
+        analysis: FormatAnalysis,
+        options: Pick<vscode.FormattingOptions, 'tabSize' | 'insertSpaces'>,
+        keepAlignment: boolean,
+    ): vscode.TextEdit[] {
+        const style = options.insertSpaces
+            ? { useTabs: false, indentSize: options.tabSize }
+            : { useTabs: true, indentSize: analysis.widths.indentSize };
+        const edits: vscode.TextEdit[] = [];
+
+        for (let i = startLine; i <= endLine; i++) {
+            const line = analysis.analyzeLine(i);
+            if (line.isIgnored || doc.lineAt(i).isEmptyOrWhitespace) continue;
+
+            const { indentSize } = analysis.widths;
+            const depth = IndentationFixer.measure(line, indentSize);
+            if (!keepAlignment && !line.isContinuation) {
+                // Rounding down could lift a misaligned body line to its header's depth
+                if (line.isError || line.isOffGrid) {
+                    depth.levels = Math.round(line.visualWidth / indentSize);
+                }
+                depth.remainder = 0;
+            }
+
+            const indent = IndentationFixer.renderDepth(depth, style, options.tabSize);
+            if (indent === doc.lineAt(i).text.slice(0, line.indentLength)) continue;
+            edits.push(
+                vscode.TextEdit.replace(new vscode.Range(i, 0, i, line.indentLength), indent),
+            );
+        }
+
+        return edits;
+    }
+
+    private async format(
+        doc: vscode.TextDocument,
+        startLine: number,
+        endLine: number,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.TextEdit[]> {
+        const analysis = await this.analyze(doc, token);
+        if (!analysis || token.isCancellationRequested) return [];
+        return IndentFormattingProvider.computeEdits(
+            doc,
+            startLine,
+            endLine,
+            analysis,
+            options,
+            this.keepAlignment(),
+        );
+    }
+}
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+import { ScopeFinder, type EnclosingScope } from './ScopeFinder';
+
+/**
+ * - `scope`: the innermost block with its header (and closing bracket line)
+ * - `parentScope`: the smallest block with its header that is larger than the selection
+ * - `body`: the innermost block without its header
+ */
+export type ScopeSelectionTarget = 'scope' | 'parentScope' | 'body';
+
+type ScopeAnalysis = Pick<DocumentAnalysis, 'ignoredLines' | 'analyzeLine'>;
+
+export class IndentSelectionRangeProvider implements vscode.SelectionRangeProvider {
+    constructor(private readonly analyze: DocumentAnalyzer) {}
+
+    public async provideSelectionRanges(
+        doc: vscode.TextDocument,
+        positions: vscode.Position[],
+        token: vscode.CancellationToken,
+    ): Promise<vscode.SelectionRange[]> {
+        const analysis = await this.analyze(doc, token);
+        if (!analysis || token.isCancellationRequested) return [];
+        return positions.map(
+            (position) =>
+                IndentSelectionRangeProvider.computeSelectionRange(doc, position, analysis) ??
+                new vscode.SelectionRange(new vscode.Range(position, position)),
+        );
+    }
+
+    /** Body, then body with header, for each block around the position from the inside out. */
+    public static computeSelectionRange(
+        doc: vscode.TextDocument,
+        position: vscode.Position,
+        analysis: ScopeAnalysis,
+    ): vscode.SelectionRange | undefined {
+        const chain: vscode.Range[] = [];
+        for (const range of this.scopeRanges(doc, position.line, analysis)) {
+            const inner = chain[chain.length - 1];
+            if (!range.contains(position)) continue;
+            if (inner && (range.isEqual(inner) || !range.contains(inner))) continue;
+            chain.push(range);
+        }
+
+        let selectionRange: vscode.SelectionRange | undefined;
+        for (let i = chain.length - 1; i >= 0; i--) {
+            selectionRange = new vscode.SelectionRange(chain[i], selectionRange);
+        }
+        return selectionRange;
+    }
+
+    /** Returns null when the selection is not inside any block. */
+    public static computeScopeSelection(
+        doc: vscode.TextDocument,
+        selection: vscode.Selection,
+        analysis: ScopeAnalysis,
+        target: ScopeSelectionTarget,
+    ): vscode.Selection | null {
+        const scopes = ScopeFinder.findEnclosingScopes(
+            doc,
+            selection.active.line,
+            analysis.ignoredLines,
+            analysis.analyzeLine,
+        );
+
+        let range: vscode.Range | undefined;
+        if (target === 'body') {
+            range = scopes[0] && this.bodyRange(doc, scopes[0]);
+        } else if (target === 'scope') {
+            range = scopes[0] && this.scopeRange(doc, scopes[0]);
+        } else {
+            range = scopes
+                .map((scope) => this.scopeRange(doc, scope))
+                .find(
+                    (candidate) => candidate.contains(selection) && !candidate.isEqual(selection),
+                );
+        }
+
+        return range ? new vscode.Selection(range.start, range.end) : null;
+    }
+
+    private static scopeRanges(
+        doc: vscode.TextDocument,
+        line: number,
+        analysis: ScopeAnalysis,
+    ): vscode.Range[] {
+        const scopes = ScopeFinder.findEnclosingScopes(
+            doc,
+            line,
+            analysis.ignoredLines,
+            analysis.analyzeLine,
+        );
+        return scopes.flatMap((scope) => [this.bodyRange(doc, scope), this.scopeRange(doc, scope)]);
+    }
+
+    private static bodyRange(doc: vscode.TextDocument, scope: EnclosingScope): vscode.Range {
+        return this.lineSpan(doc, scope.bodyStart, scope.bodyEnd);
+    }
+
+    private static scopeRange(doc: vscode.TextDocument, scope: EnclosingScope): vscode.Range {
+        const start = scope.headerStart === -1 ? scope.bodyStart : scope.headerStart;
+        const end = scope.closingLine === -1 ? scope.bodyEnd : scope.closingLine;
+        return this.lineSpan(doc, start, end);
+    }
+
+    /** Whole lines, so the cursor anywhere in the indentation stays inside the range */
+    private static lineSpan(
+        doc: vscode.TextDocument,
+        startLine: number,
+        endLine: number,
+    ): vscode.Range {
+        return new vscode.Range(startLine, 0, endLine, doc.lineAt(endLine).text.length);
+    }
+}
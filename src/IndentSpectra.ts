@@ -1,27 +1,95 @@
 import * as vscode from 'vscode';
+import { BracketScopeFinder, type BracketState } from './BracketScopeFinder';
 import type { IndentSpectraConfig } from './ConfigurationManager';
-import { ConfigurationManager } from './ConfigurationManager';
+import {
+    BranchScope,
+    ConfigurationManager,
+    FixOnSave,
+    IndentSource,
+    ScopeMode,
+} from './ConfigurationManager';
 import { ConfigUtils } from './ConfigUtils';
-import { DecorationGenerator, type DecorationResult } from './DecorationGenerator';
+import { ContinuationTracker, type ContinuationState } from './ContinuationTracker';
+import {
+    DecorationGenerator,
+    type DecorationResult,
+    type LineAnalysisProvider,
+    type StructureIssueProvider,
+} from './DecorationGenerator';
 import { DecorationManager } from './DecorationManager';
+import { EditorConfigResolver, type EditorConfigIndent } from './EditorConfigResolver';
 import { IgnoredLineDetector } from './IgnoredLineDetector';
-import { IndentationEngine, type LineAnalysis } from './IndentationEngine';
+import { IndentCodeActionProvider } from './IndentCodeActionProvider';
+import { IndentDiagnostics } from './IndentDiagnostics';
+import { IndentFoldingProvider } from './IndentFoldingProvider';
+import { IndentFormattingProvider } from './IndentFormattingProvider';
+import {
+    IndentSelectionRangeProvider,
+    type ScopeSelectionTarget,
+} from './IndentSelectionRangeProvider';
+import { IndentationDetector, type DetectedIndentation } from './IndentationDetector';
+import { IndentStructureAnalyzer, type StructureState } from './IndentStructureAnalyzer';
+import {
+    IndentationEngine,
+    type AnalysisOptions,
+    type IndentWidths,
+    type LineAnalysis,
+} from './IndentationEngine';
 import { LRUCache } from './LRUCache';
-import { ScopeFinder } from './ScopeFinder';
+import { LanguageRules } from './LanguageRules';
+import { ModelineParser, type ModelineIndent } from './ModelineParser';
+import { Reindenter } from './Reindenter';
+import { SaveFixer } from './SaveFixer';
+import { ScopeBreadcrumb } from './ScopeBreadcrumb';
+import { ScopeFinder, type ScopeResult } from './ScopeFinder';
+import { ScopeNavigator, type ScopeNavigationTarget } from './ScopeNavigator';
 
 const MAX_CACHED_DOCUMENTS = 50;
+const MIN_DETECTION_CONFIDENCE = 0.6;
+
+export interface DocumentAnalysis {
+    widths: IndentWidths;
+    ignoredLines: Set<number>;
+    /** Cached line analysis, with continuation lines mapped onto their statement */
+    analyzeLine: LineAnalysisProvider;
+}
+
+export type DocumentAnalyzer = (
+    doc: vscode.TextDocument,
+    token: vscode.CancellationToken,
+) => Promise<DocumentAnalysis | null>;
 
 export class IndentSpectra implements vscode.Disposable {
     private decorationManager: DecorationManager;
     private configManager: ConfigurationManager;
+    private editorConfigResolver: EditorConfigResolver;
     private timeout: NodeJS.Timeout | null = null;
     private isDisposed = false;
     private decoratorCacheKey: string | null = null;
     private lineCache = new LRUCache<string, (LineAnalysis | undefined)[]>(MAX_CACHED_DOCUMENTS);
     private ignoredLinesCache = new LRUCache<string, Set<number>>(MAX_CACHED_DOCUMENTS);
-    private lastTabSize = new LRUCache<string, number>(MAX_CACHED_DOCUMENTS);
+    private structureCache = new LRUCache<string, StructureState>(MAX_CACHED_DOCUMENTS);
+    private continuationCache = new LRUCache<string, ContinuationState>(MAX_CACHED_DOCUMENTS);
+    private bracketCache = new LRUCache<string, BracketState>(MAX_CACHED_DOCUMENTS);
+    private lastIndentWidths = new LRUCache<string, string>(MAX_CACHED_DOCUMENTS);
+    private detectedIndentation = new LRUCache<string, DetectedIndentation | null>(
+        MAX_CACHED_DOCUMENTS,
+    );
+    private editorConfigIndent = new LRUCache<string, EditorConfigIndent | null>(
+        MAX_CACHED_DOCUMENTS,
+    );
+    private modelineIndent = new LRUCache<string, ModelineIndent | null>(MAX_CACHED_DOCUMENTS);
     private lastAppliedState = new LRUCache<string, string>(MAX_CACHED_DOCUMENTS);
     private dirtyDocuments = new Set<string>();
+    private foldingRegistration: vscode.Disposable | null = null;
+    private formattingRegistration: vscode.Disposable | null = null;
+    private selectionRangeRegistration: vscode.Disposable | null = null;
+    private codeActionRegistration: vscode.Disposable | null = null;
+    private breadcrumb: ScopeBreadcrumb;
+    private diagnostics: IndentDiagnostics;
+    private saveFixer: SaveFixer;
+    private foldingLanguagesKey = '';
+    private formatLanguagesKey = '';
     private cancellationSource?: vscode.CancellationTokenSource;
     private eventSequence = 0;
     private pendingEvents = new Map<
@@ -34,6 +102,7 @@ export class IndentSpectra implements vscode.Disposable {
         if (this.dirtyDocuments.has(uriString)) {
             // Clear stale data for this document
             this.lineCache.delete(uriString);
+            this.structureCache.delete(uriString);
             this.lastAppliedState.delete(uriString);
             this.dirtyDocuments.delete(uriString);
 
@@ -50,8 +119,19 @@ export class IndentSpectra implements vscode.Disposable {
     constructor() {
         this.configManager = new ConfigurationManager();
         this.configManager.onDidChangeConfig(() => this.handleConfigChange());
+        this.editorConfigResolver = new EditorConfigResolver();
+        this.editorConfigResolver.onDidChange(() => this.handleEditorConfigChange());
         this.decorationManager = new DecorationManager(vscode.window.activeColorTheme.kind);
         this.decoratorCacheKey = this.computeDecoratorCacheKey(this.configManager.current);
+        this.updateFoldingProvider();
+        this.updateFormattingProvider();
+        this.updateSelectionRangeProvider();
+        this.updateCodeActionProvider();
+        this.breadcrumb = new ScopeBreadcrumb((doc, token) => this.analyzeDocument(doc, token));
+        this.breadcrumb.setHoverEnabled(this.configManager.current.scopeHover);
+        this.diagnostics = new IndentDiagnostics((doc, token) => this.analyzeDocument(doc, token));
+        this.refreshAllDiagnostics();
+        this.saveFixer = new SaveFixer((doc, token) => this.analyzeDocument(doc, token));
     }
 
     private handleConfigChange(): void {
@@ -64,6 +144,12 @@ export class IndentSpectra implements vscode.Disposable {
             this.decoratorCacheKey = newCacheKey;
         }
 
+        this.updateFoldingProvider();
+        this.updateFormattingProvider();
+        this.updateSelectionRangeProvider();
+        this.updateCodeActionProvider();
+        this.breadcrumb.setHoverEnabled(config.scopeHover);
+
         // Mark all cached documents as dirty instead of clearing them immediately
         for (const uri of this.lineCache.keys()) {
             this.dirtyDocuments.add(uri);
@@ -72,6 +158,7 @@ export class IndentSpectra implements vscode.Disposable {
         // Clear caches that are no longer valid after config change
         this.ignoredLinesCache.clear();
         this.lastAppliedState.clear();
+        this.refreshAllDiagnostics();
 
         // Only update active editor immediately, others will be updated when focused
         const activeEditor = vscode.window.activeTextEditor;
@@ -80,6 +167,109 @@ export class IndentSpectra implements vscode.Disposable {
         }
     }
 
+    /** Re-registers the folding provider when the set of folding languages changes. */
+    private updateFoldingProvider(): void {
+        const languages = this.configManager.current.foldingLanguages;
+        const key = languages.join(',');
+        if (key === this.foldingLanguagesKey) return;
+
+        this.foldingLanguagesKey = key;
+        this.foldingRegistration?.dispose();
+        this.foldingRegistration =
+            languages.length > 0
+                ? vscode.languages.registerFoldingRangeProvider(
+                      languages.map((language) => ({ language })),
+                      new IndentFoldingProvider((doc, token) => this.analyzeDocument(doc, token)),
+                  )
+                : null;
+    }
+
+    /** Re-registers the formatters when the set of formatted languages changes. */
+    private updateFormattingProvider(): void {
+        const languages = this.configManager.current.formatLanguages;
+        const key = languages.join(',');
+        if (key === this.formatLanguagesKey) return;
+
+        this.formatLanguagesKey = key;
+        this.formattingRegistration?.dispose();
+        this.formattingRegistration = null;
+        if (languages.length === 0) return;
+
+        const selector = languages.map((language) => ({ language }));
+        const provider = new IndentFormattingProvider(
+            (doc, token) => this.analyzeDocument(doc, token),
+            () => this.configManager.current.formatKeepAlignment,
+        );
+        this.formattingRegistration = vscode.Disposable.from(
+            vscode.languages.registerDocumentFormattingEditProvider(selector, provider),
+            vscode.languages.registerDocumentRangeFormattingEditProvider(selector, provider),
+        );
+    }
+
+    /** Registers scope-based Expand Selection for every language while it is enabled. */
+    private updateSelectionRangeProvider(): void {
+        const enabled = this.configManager.current.scopeSelection;
+        if (enabled === (this.selectionRangeRegistration !== null)) return;
+
+        this.selectionRangeRegistration?.dispose();
+        this.selectionRangeRegistration = enabled
+            ? vscode.languages.registerSelectionRangeProvider(
+                  '*',
+                  new IndentSelectionRangeProvider((doc, token) =>
+                      this.analyzeDocument(doc, token),
+                  ),
+              )
+            : null;
+    }
+
+    /** Registers the quick fixes for every language while they are enabled. */
+    private updateCodeActionProvider(): void {
+        const enabled = this.configManager.current.codeActions;
+        if (enabled === (this.codeActionRegistration !== null)) return;
+
+        this.codeActionRegistration?.dispose();
+        this.codeActionRegistration = enabled
+            ? vscode.languages.registerCodeActionsProvider(
+                  '*',
+                  new IndentCodeActionProvider((doc, token) => this.analyzeDocument(doc, token)),
+                  { providedCodeActionKinds: IndentCodeActionProvider.providedCodeActionKinds },
+              )
+            : null;
+    }
+
+    private handleEditorConfigChange(): void {
+        if (this.isDisposed) return;
+
+        // Widths are re-resolved on the next pass; a changed width key drops the line cache
+        this.editorConfigIndent.clear();
+        this.lastAppliedState.clear();
+        this.triggerUpdate(undefined, true);
+        this.refreshAllDiagnostics();
+    }
+
+    /** Queues a diagnostics run for the document when diagnostics are enabled. */
+    public updateDiagnostics(doc: vscode.TextDocument): void {
+        if (this.isDisposed) return;
+        const config = this.configManager.current;
+        if (!config.diagnostics) return;
+        this.diagnostics.schedule(doc, config.updateDelay, config.diagnosticSeverity);
+    }
+
+    /** Drops the diagnostics of a file that no longer exists. */
+    public deleteDiagnostics(uri: vscode.Uri): void {
+        this.diagnostics.delete(uri);
+    }
+
+    private refreshAllDiagnostics(): void {
+        if (!this.configManager.current.diagnostics) {
+            this.diagnostics.clear();
+            return;
+        }
+        for (const doc of vscode.workspace.textDocuments) {
+            this.updateDiagnostics(doc);
+        }
+    }
+
     private computeDecoratorCacheKey(config: IndentSpectraConfig): string {
         return ConfigUtils.computeConfigKey(config);
     }
@@ -102,8 +292,14 @@ export class IndentSpectra implements vscode.Disposable {
     public clearCache(uri: vscode.Uri): void {
         const uriString = uri.toString();
         this.lineCache.delete(uriString);
+        this.structureCache.delete(uriString);
+        this.continuationCache.delete(uriString);
+        this.bracketCache.delete(uriString);
         this.ignoredLinesCache.delete(uriString);
-        this.lastTabSize.delete(uriString);
+        this.lastIndentWidths.delete(uriString);
+        this.detectedIndentation.delete(uriString);
+        this.editorConfigIndent.delete(uriString);
+        this.modelineIndent.delete(uriString);
         this.lastAppliedState.delete(uriString);
         this.decorationManager.getCurrentSuite()?.clearState(uri);
     }
@@ -118,11 +314,29 @@ export class IndentSpectra implements vscode.Disposable {
         this.decorationManager.dispose();
         this.cancelCurrentWork();
         this.configManager.dispose();
+        this.editorConfigResolver.dispose();
+        this.foldingRegistration?.dispose();
+        this.foldingRegistration = null;
+        this.formattingRegistration?.dispose();
+        this.formattingRegistration = null;
+        this.selectionRangeRegistration?.dispose();
+        this.selectionRangeRegistration = null;
+        this.codeActionRegistration?.dispose();
+        this.codeActionRegistration = null;
+        this.breadcrumb.dispose();
+        this.diagnostics.dispose();
+        this.saveFixer.dispose();
         if (this.timeout) clearTimeout(this.timeout);
         this.lineCache.clear();
+        this.structureCache.clear();
+        this.continuationCache.clear();
+        this.bracketCache.clear();
         this.ignoredLinesCache.clear();
         this.lastAppliedState.clear();
-        this.lastTabSize.clear();
+        this.lastIndentWidths.clear();
+        this.detectedIndentation.clear();
+        this.editorConfigIndent.clear();
+        this.modelineIndent.clear();
     }
 
     private cancelCurrentWork(): void {
@@ -171,16 +385,32 @@ export class IndentSpectra implements vscode.Disposable {
         if (!pending?.sequence || pending.sequence !== sequence) return;
 
         this.ignoredLinesCache.delete(uri);
+        this.detectedIndentation.delete(uri);
+        if (ModelineParser.touchesModelines(event)) {
+            this.modelineIndent.delete(uri);
+        }
         this.lastAppliedState.delete(uri);
         this.pendingEvents.delete(uri);
 
-        const cache = this.lineCache.get(uri);
-        if (!cache) return;
-
         const sortedChanges = [...event.contentChanges].sort(
             (a, b) => b.range.start.line - a.range.start.line,
         );
 
+        // Structure issues, continuations and brackets depend on every line above, so drop
+        // them from the first edit down
+        if (sortedChanges.length > 0) {
+            const firstChangedLine = sortedChanges[sortedChanges.length - 1].range.start.line;
+            const structure = this.structureCache.get(uri);
+            if (structure) IndentStructureAnalyzer.invalidateFrom(structure, firstChangedLine);
+            const continuation = this.continuationCache.get(uri);
+            if (continuation) ContinuationTracker.invalidateFrom(continuation, firstChangedLine);
+            const brackets = this.bracketCache.get(uri);
+            if (brackets) BracketScopeFinder.invalidateFrom(brackets, firstChangedLine);
+        }
+
+        const cache = this.lineCache.get(uri);
+        if (!cache) return;
+
         for (const change of sortedChanges) {
             const startLine = change.range.start.line;
             const endLine = change.range.end.line;
@@ -196,6 +426,12 @@ export class IndentSpectra implements vscode.Disposable {
             if (token.isCancellationRequested) return;
             await this.processEditor(editor, token);
         }
+
+        if (this.configManager.current.scopeBreadcrumb) {
+            await this.breadcrumb.update(vscode.window.activeTextEditor, token);
+        } else {
+            this.breadcrumb.hide();
+        }
     }
 
     private async processEditor(
@@ -208,32 +444,23 @@ export class IndentSpectra implements vscode.Disposable {
 
         const uri = doc.uri.toString();
 
-        // Check and clear dirty status ONCE per document, not per line
-        if (this.dirtyDocuments.has(uri)) {
-            this.lineCache.delete(uri);
-            this.lastAppliedState.delete(uri);
-            this.dirtyDocuments.delete(uri);
-        }
-
-        const tabSize = this.resolveTabSize(editor);
+        const widths = await this.resolveIndentWidths(doc, editor.options);
+        if (token.isCancellationRequested) return;
+        const widthsKey = `${widths.tabSize}:${widths.indentSize}`;
+        this.dropStaleAnalysis(uri, widthsKey);
         const ranges = editor.visibleRanges.length > 0 ? editor.visibleRanges : [];
 
-        const activeLine = config.activeIndentBrightness > 0 ? editor.selection.active.line : -1;
-        const activeChar =
-            config.activeIndentBrightness > 0 ? editor.selection.active.character : -1;
+        const activePositions = this.getActivePositions(editor);
 
         const rangesHash = ConfigUtils.hashRanges(ranges);
-        const stateKey = `${doc.version}-${tabSize}-${activeLine}-${activeChar}-${rangesHash}`;
+        const positionsHash = ConfigUtils.hashPositions(activePositions);
+        const stateKey = `${doc.version}-${widthsKey}-${positionsHash}-${rangesHash}`;
         if (this.lastAppliedState.get(uri) === stateKey) return;
 
-        if (this.lastTabSize.get(uri) !== tabSize) {
-            this.lineCache.delete(uri);
-            this.lastTabSize.set(uri, tabSize);
-        }
-
         const result = await this.analyzeIndentation(
             editor,
-            tabSize,
+            activePositions,
+            widths,
             config.ignoreErrorLanguages.has(doc.languageId),
             ranges,
             token,
@@ -244,15 +471,254 @@ export class IndentSpectra implements vscode.Disposable {
         }
     }
 
+    /**
+     * Analyses a document with the same widths, ignored lines and caches as its decorations,
+     * for providers that work on documents rather than visible editors.
+     */
+    public async analyzeDocument(
+        doc: vscode.TextDocument,
+        token: vscode.CancellationToken,
+    ): Promise<DocumentAnalysis | null> {
+        const config = this.configManager.current;
+        if (this.isDisposed || config.ignoredLanguages.has(doc.languageId)) return null;
+        const editor = vscode.window.visibleTextEditors.find((e) => e.document === doc);
+
+        const widths = await this.resolveIndentWidths(doc, editor?.options);
+        if (token.isCancellationRequested) return null;
+        this.dropStaleAnalysis(doc.uri.toString(), `${widths.tabSize}:${widths.indentSize}`);
+
+        return this.prepareAnalysis(
+            doc,
+            widths,
+            config.ignoreErrorLanguages.has(doc.languageId),
+            token,
+        );
+    }
+
+    /** Replaces every selection with the block `target` describes around it. */
+    public async selectScope(
+        editor: vscode.TextEditor,
+        target: ScopeSelectionTarget,
+    ): Promise<void> {
+        const tokenSource = new vscode.CancellationTokenSource();
+        try {
+            const analysis = await this.analyzeDocument(editor.document, tokenSource.token);
+            if (!analysis) return;
+
+            editor.selections = editor.selections.map(
+                (selection) =>
+                    IndentSelectionRangeProvider.computeScopeSelection(
+                        editor.document,
+                        selection,
+                        analysis,
+                        target,
+                    ) ?? selection,
+            );
+            editor.revealRange(editor.selection);
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+
+    /** Opens a quick pick of the blocks around the cursor and jumps to the chosen one. */
+    public showScopeAncestors(editor: vscode.TextEditor): Promise<void> {
+        return this.breadcrumb.showAncestors(editor);
+    }
+
+    /** Moves every cursor to `target`, extending the selections when `select` is set. */
+    public async navigateScope(
+        editor: vscode.TextEditor,
+        target: ScopeNavigationTarget,
+        select: boolean,
+    ): Promise<void> {
+        const tokenSource = new vscode.CancellationTokenSource();
+        try {
+            const analysis = await this.analyzeDocument(editor.document, tokenSource.token);
+            if (!analysis) return;
+
+            editor.selections = editor.selections.map((selection) =>
+                ScopeNavigator.move(editor.document, selection, analysis, target, select),
+            );
+            const active = editor.selection.active;
+            editor.revealRange(
+                new vscode.Range(active, active),
+                vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+            );
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+
+    /**
+     * Asks for the document's current and new indentation, then re-indents it through the
+     * refactor preview so the changes can be reviewed before they are applied.
+     */
+    public async reindent(editor: vscode.TextEditor): Promise<void> {
+        const doc = editor.document;
+        const tokenSource = new vscode.CancellationTokenSource();
+        let analysis: DocumentAnalysis | null;
+        try {
+            analysis = await this.analyzeDocument(doc, tokenSource.token);
+        } finally {
+            tokenSource.dispose();
+        }
+        const tabSize = analysis?.widths.tabSize ?? this.resolveEditorTabSize(doc, editor.options);
+
+        const detected = this.getDetectedIndentation(doc);
+        const source = await Reindenter.pickStyle(
+            'Re-indent: current indentation',
+            detected && { useTabs: detected.useTabs, indentSize: detected.indentSize },
+            'Detected',
+        );
+        if (!source) return;
+        const editorTabSize = this.resolveEditorTabSize(doc, editor.options);
+        const target = await Reindenter.pickStyle(
+            'Re-indent: new indentation',
+            {
+                useTabs: !editor.options.insertSpaces,
+                indentSize: this.resolveEditorIndentSize(doc, editor.options, editorTabSize),
+            },
+            'Editor setting',
+        );
+        if (!target) return;
+
+        const edits = Reindenter.computeEdits(
+            doc,
+            source,
+            target,
+            tabSize,
+            analysis?.ignoredLines ?? new Set(),
+        );
+        if (edits.length === 0) {
+            vscode.window.showInformationMessage(
+                'Indent Spectra: the indentation already matches.',
+            );
+            return;
+        }
+
+        const metadata = { needsConfirmation: true, label: 'Re-indent' };
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const edit of edits) {
+            workspaceEdit.replace(doc.uri, edit.range, edit.newText, metadata);
+        }
+        if (!(await vscode.workspace.applyEdit(workspaceEdit))) return;
+
+        // Keep typing in the new style
+        editor.options = target.useTabs
+            ? { insertSpaces: false }
+            : { insertSpaces: true, indentSize: target.indentSize };
+    }
+
+    /**
+     * Adds the 'fixOnSave' fixes to a save. Saves from auto save after a delay are left alone
+     * so lines do not change while the user is still typing.
+     */
+    public handleWillSave(event: vscode.TextDocumentWillSaveEvent): void {
+        const config = this.configManager.current;
+        if (this.isDisposed || config.fixOnSave === FixOnSave.Off) return;
+        if (event.reason === vscode.TextDocumentSaveReason.AfterDelay) return;
+
+        const doc = event.document;
+        const exclude = config.fixOnSaveExclude.map((pattern) => ({ pattern }));
+        if (exclude.length > 0 && vscode.languages.match(exclude, doc) > 0) return;
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        event.waitUntil(
+            this.saveFixer
+                .fixBeforeSave(doc, config.fixOnSave, this.resolveUseTabs(doc), tokenSource.token)
+                .finally(() => tokenSource.dispose()),
+        );
+    }
+
+    /** The editor's setting when the document is shown, else its detected style. */
+    private resolveUseTabs(doc: vscode.TextDocument): boolean {
+        const editor = vscode.window.visibleTextEditors.find((e) => e.document === doc);
+        if (typeof editor?.options.insertSpaces === 'boolean') return !editor.options.insertSpaces;
+
+        const detected = this.getDetectedIndentation(doc);
+        if (detected) return detected.useTabs;
+        return !vscode.workspace.getConfiguration('editor', doc).get<boolean>('insertSpaces', true);
+    }
+
+    /** Drops cached analysis made before a configuration change or with other widths. */
+    private dropStaleAnalysis(uri: string, widthsKey: string): void {
+        // Check and clear dirty status ONCE per document, not per line
+        if (this.dirtyDocuments.has(uri)) {
+            this.lineCache.delete(uri);
+            this.structureCache.delete(uri);
+            this.lastAppliedState.delete(uri);
+            this.dirtyDocuments.delete(uri);
+        }
+
+        if (this.lastIndentWidths.get(uri) !== widthsKey) {
+            this.lineCache.delete(uri);
+            this.structureCache.delete(uri);
+            this.lastIndentWidths.set(uri, widthsKey);
+        }
+    }
+
     private async analyzeIndentation(
         editor: vscode.TextEditor,
-        tabSize: number,
+        activePositions: readonly vscode.Position[],
+        widths: IndentWidths,
         skipErrors: boolean,
         visibleRanges: readonly vscode.Range[],
         token: vscode.CancellationToken,
     ): Promise<DecorationResult | null> {
         const doc = editor.document;
         const config = this.configManager.current;
+
+        const analysis = await this.prepareAnalysis(doc, widths, skipErrors, token);
+        if (!analysis) return null;
+        const { ignoredLines, analyzeLine } = analysis;
+
+        const structureIssueAt = this.createStructureIssueProvider(
+            doc,
+            widths,
+            skipErrors,
+            ignoredLines,
+            analyzeLine,
+        );
+
+        // 3. Determine Active Scopes (one per cursor, overlapping ones merged)
+        const scopes = ScopeFinder.mergeScopes(
+            activePositions.map((position) =>
+                this.findActiveScope(
+                    doc,
+                    position.line,
+                    position.character,
+                    ignoredLines,
+                    analyzeLine,
+                ),
+            ),
+        );
+
+        // 4. Generate Decorations
+        const decorationSuite = this.decorationManager.getOrCreateSuite(
+            config,
+            vscode.window.activeColorTheme.kind,
+        );
+        const decoratorCount = decorationSuite?.getDecoratorCount() ?? 0;
+
+        return DecorationGenerator.generate(
+            doc,
+            visibleRanges,
+            decoratorCount,
+            scopes,
+            { indentSize: widths.indentSize, blankLines: config.blankLineGuides },
+            analyzeLine,
+            structureIssueAt,
+            token,
+        );
+    }
+
+    private async prepareAnalysis(
+        doc: vscode.TextDocument,
+        widths: IndentWidths,
+        skipErrors: boolean,
+        token: vscode.CancellationToken,
+    ): Promise<DocumentAnalysis | null> {
+        const config = this.configManager.current;
         const uri = doc.uri.toString();
         const lineCount = doc.lineCount;
         let cache = this.lineCache.get(uri);
@@ -275,45 +741,173 @@ export class IndentSpectra implements vscode.Disposable {
         }
 
         // 2. Define Line Analysis Provider (Closure for cache access)
+        const options: AnalysisOptions = {
+            smartTabs: config.smartTabs,
+            policy: config.languageRules.get(doc.languageId),
+            trailingWhitespace:
+                config.trailingWhitespace && !config.ignoreWhitespaceLanguages.has(doc.languageId),
+            blankLineWhitespace:
+                config.blankLineWhitespace && !config.ignoreWhitespaceLanguages.has(doc.languageId),
+        };
+        const getText = (line: number): string => doc.lineAt(line).text;
+        const syntaxState = this.getContinuationState(doc);
+        const analyzeOwnLine = (line: number): LineAnalysis => {
+            let analysis = this.getOrAnalyzeLine(
+                doc,
+                line,
+                widths,
+                options,
+                skipErrors,
+                ignoredLines!.has(line),
+            );
+            // Whether a line is a recipe depends on the lines above, so it is checked uncached
+            if (
+                analysis.isPolicyViolation &&
+                options.policy?.recipesOnly &&
+                !LanguageRules.isRecipeLine(line, getText)
+            ) {
+                analysis = { ...analysis, isPolicyViolation: false };
+            }
+            // Block comment lines such as ` * doc` are aligned to the comment, not the grid
+            if (
+                analysis.isOffGrid &&
+                ContinuationTracker.startsInComment(syntaxState, line, getText)
+            ) {
+                analysis = { ...analysis, isOffGrid: false };
+            }
+            return analysis;
+        };
+
+        // Continuations depend on the lines above, so they are layered over the line cache
+        const continuation = config.continuationLines ? syntaxState : null;
         const analyzeLine = (line: number): LineAnalysis => {
-            return this.getOrAnalyzeLine(doc, line, tabSize, skipErrors, ignoredLines!.has(line));
+            const analysis = analyzeOwnLine(line);
+            if (!continuation || analysis.isIgnored) return analysis;
+            const parentLine = ContinuationTracker.parentLineOf(continuation, line, getText);
+            if (parentLine === -1) return analysis;
+            return IndentationEngine.asContinuation(analysis, analyzeOwnLine(parentLine));
+        };
+
+        return { widths, ignoredLines, analyzeLine };
+    }
+
+    /**
+     * Structure issues need every line above them, so the document is walked lazily up to the
+     * deepest line asked for and the results are kept until an edit above invalidates them.
+     */
+    private createStructureIssueProvider(
+        doc: vscode.TextDocument,
+        widths: IndentWidths,
+        skipErrors: boolean,
+        ignoredLines: Set<number>,
+        analyzeLine: LineAnalysisProvider,
+    ): StructureIssueProvider {
+        const config = this.configManager.current;
+        if (skipErrors || (!config.dedentColor && !config.indentJumpColor)) return () => null;
+
+        const uri = doc.uri.toString();
+        let state = this.structureCache.get(uri);
+        if (!state) {
+            state = IndentStructureAnalyzer.createState();
+            this.structureCache.set(uri, state);
+        }
+        IndentStructureAnalyzer.syncIgnoredLines(state, ignoredLines);
+
+        const isSkipped = (line: number): boolean => {
+            if (ignoredLines.has(line) || doc.lineAt(line).isEmptyOrWhitespace) return true;
+            const analysis = analyzeLine(line);
+            return analysis.isContinuation || analysis.alignmentStart >= 0;
+        };
+
+        const structure = state;
+        return (line) => {
+            IndentStructureAnalyzer.analyzeThrough(
+                structure,
+                line,
+                widths.indentSize,
+                isSkipped,
+                analyzeLine,
+            );
+            return structure.issues[line] ?? null;
         };
+    }
 
-        // 3. Determine Active Scope
-        const activeLineNum = config.activeIndentBrightness > 0 ? editor.selection.active.line : -1;
-        const activeChar =
-            config.activeIndentBrightness > 0 ? editor.selection.active.character : 0;
+    /** Cursor positions that get an active scope, capped by 'maxActiveScopes'. */
+    private getActivePositions(editor: vscode.TextEditor): vscode.Position[] {
+        const config = this.configManager.current;
+        if (config.activeIndentBrightness === 0) return [];
+        return editor.selections
+            .slice(0, config.maxActiveScopes)
+            .map((selection) => selection.active);
+    }
+
+    /**
+     * Indent mode follows indentation only, bracket mode follows the innermost multi-line
+     * bracket pair, and hybrid mode uses the bracket pair when there is one.
+     */
+    private findActiveScope(
+        doc: vscode.TextDocument,
+        activeLineNum: number,
+        activeChar: number,
+        ignoredLines: Set<number>,
+        analyzeLine: LineAnalysisProvider,
+    ): ScopeResult {
+        const config = this.configManager.current;
+        const mode = config.languageScopeModes.get(doc.languageId) ?? config.scopeMode;
+
+        if (mode !== ScopeMode.Indent) {
+            const bracketScope = BracketScopeFinder.findScope(
+                this.getBracketState(doc),
+                doc,
+                activeLineNum,
+                activeChar,
+                analyzeLine,
+            );
+            if (bracketScope) return bracketScope;
+            if (mode === ScopeMode.Bracket) {
+                return { highlightLevel: -1, blockStart: -1, blockEnd: -1 };
+            }
+        }
 
-        const scope = ScopeFinder.findScope(
+        return ScopeFinder.findScope(
             doc,
             activeLineNum,
             activeChar,
-            lineCount,
+            doc.lineCount,
             ignoredLines,
             analyzeLine,
+            {
+                branchKeywords: config.branchKeywords.get(doc.languageId),
+                compoundBranches: config.branchScope === BranchScope.Compound,
+            },
         );
+    }
 
-        // 4. Generate Decorations
-        const decorationSuite = this.decorationManager.getOrCreateSuite(
-            config,
-            vscode.window.activeColorTheme.kind,
-        );
-        const decoratorCount = decorationSuite?.getDecoratorCount() ?? 0;
+    private getBracketState(doc: vscode.TextDocument): BracketState {
+        const uri = doc.uri.toString();
+        let state = this.bracketCache.get(uri);
+        if (state?.languageId !== doc.languageId) {
+            state = BracketScopeFinder.createState(doc.languageId);
+            this.bracketCache.set(uri, state);
+        }
+        return state;
+    }
 
-        return DecorationGenerator.generate(
-            doc,
-            visibleRanges,
-            decoratorCount,
-            scope,
-            analyzeLine,
-            token,
-        );
+    private getContinuationState(doc: vscode.TextDocument): ContinuationState {
+        const uri = doc.uri.toString();
+        let state = this.continuationCache.get(uri);
+        if (state?.languageId !== doc.languageId) {
+            state = ContinuationTracker.createState(doc.languageId);
+            this.continuationCache.set(uri, state);
+        }
+        return state;
     }
 
     private getOrAnalyzeLine(
         doc: vscode.TextDocument,
         line: number,
-        tabSize: number,
+        widths: IndentWidths,
+        options: AnalysisOptions,
         skipErrors: boolean,
         isIgnored: boolean,
     ): LineAnalysis {
@@ -321,9 +915,14 @@ export class IndentSpectra implements vscode.Disposable {
         const cache = this.lineCache.get(uri);
         if (cache?.[line] && cache[line]?.isIgnored === isIgnored) return cache[line]!;
 
-        const data = isIgnored
-            ? { blocks: [], visualWidth: 0, isMixed: false, isError: false, isIgnored: true }
-            : IndentationEngine.analyzeLine(doc.lineAt(line).text, tabSize, skipErrors, isIgnored);
+        const data = IndentationEngine.analyzeLine(
+            isIgnored ? '' : doc.lineAt(line).text,
+            widths.tabSize,
+            skipErrors,
+            isIgnored,
+            widths.indentSize,
+            options,
+        );
 
         if (cache) cache[line] = data;
         return data;
@@ -334,20 +933,119 @@ export class IndentSpectra implements vscode.Disposable {
         const decorationSuite = this.decorationManager.getCurrentSuite();
         if (!decorationSuite) return;
 
-        decorationSuite.apply(
-            editor,
-            result.spectra,
-            result.activeLevelSpectra,
-            result.errors,
-            result.mixed,
-            result.processedLines,
-        );
+        decorationSuite.apply(editor, result);
+    }
+
+    /** `options` are those of an editor showing the document, when there is one. */
+    private async resolveIndentWidths(
+        doc: vscode.TextDocument,
+        options: vscode.TextEditorOptions | undefined,
+    ): Promise<IndentWidths> {
+        const config = this.configManager.current;
+        let widths = this.resolveDocumentIndentWidths(doc, options);
+
+        // An .editorconfig is an explicit declaration and wins over editor and detected values
+        if (config.useEditorConfig) {
+            const editorConfig = await this.getEditorConfigIndent(doc.uri);
+            if (editorConfig) {
+                const tabSize = editorConfig.tabWidth ?? widths.tabSize;
+                const indentSize =
+                    editorConfig.indentSize ??
+                    (editorConfig.indentStyle === 'tab' ? tabSize : widths.indentSize);
+                widths = { tabSize, indentSize };
+            }
+        }
+
+        // A modeline is specific to the file, so it overrides everything else
+        if (config.readModelines) {
+            const modeline = this.getModelineIndent(doc);
+            if (modeline) {
+                const tabSize = modeline.tabSize ?? widths.tabSize;
+                const indentSize =
+                    modeline.indentSize ?? (modeline.useTabs ? tabSize : widths.indentSize);
+                widths = { tabSize, indentSize };
+            }
+        }
+
+        return widths;
+    }
+
+    private getModelineIndent(doc: vscode.TextDocument): ModelineIndent | null {
+        const uri = doc.uri.toString();
+        let indent = this.modelineIndent.get(uri);
+        if (indent === undefined) {
+            indent = ModelineParser.scan(doc);
+            this.modelineIndent.set(uri, indent);
+        }
+        return indent;
+    }
+
+    private async getEditorConfigIndent(uri: vscode.Uri): Promise<EditorConfigIndent | null> {
+        const key = uri.toString();
+        let indent = this.editorConfigIndent.get(key);
+        if (indent === undefined) {
+            indent = await this.editorConfigResolver.resolve(uri);
+            this.editorConfigIndent.set(key, indent);
+        }
+        return indent;
+    }
+
+    private resolveDocumentIndentWidths(
+        doc: vscode.TextDocument,
+        options: vscode.TextEditorOptions | undefined,
+    ): IndentWidths {
+        const tabSize = this.resolveEditorTabSize(doc, options);
+        const indentSize = this.resolveEditorIndentSize(doc, options, tabSize);
+        const source = this.configManager.current.indentSource;
+        if (source === IndentSource.Editor) return { tabSize, indentSize };
+
+        const detected = this.getDetectedIndentation(doc);
+
+        // Tab-indented documents keep the editor's widths; only the unit is inferred
+        if (!detected || detected.useTabs) return { tabSize, indentSize };
+        if (
+            source === IndentSource.DetectedWithFallback &&
+            detected.confidence < MIN_DETECTION_CONFIDENCE
+        ) {
+            return { tabSize, indentSize };
+        }
+        return { tabSize, indentSize: detected.indentSize };
+    }
+
+    private getDetectedIndentation(doc: vscode.TextDocument): DetectedIndentation | null {
+        const uri = doc.uri.toString();
+        let detected = this.detectedIndentation.get(uri);
+        if (detected === undefined) {
+            detected = IndentationDetector.detect(doc);
+            this.detectedIndentation.set(uri, detected);
+        }
+        return detected;
     }
 
-    private resolveTabSize(editor: vscode.TextEditor): number {
-        const size = editor.options.tabSize;
+    private resolveEditorTabSize(
+        doc: vscode.TextDocument,
+        options: vscode.TextEditorOptions | undefined,
+    ): number {
+        const size = options?.tabSize;
         if (typeof size === 'number') return size;
         if (typeof size === 'string') return parseInt(size, 10) || 4;
-        return vscode.workspace.getConfiguration('editor').get<number>('tabSize') ?? 4;
+        // Without an editor, read the setting with the document's language overrides
+        return vscode.workspace.getConfiguration('editor', doc).get<number>('tabSize') ?? 4;
+    }
+
+    private resolveEditorIndentSize(
+        doc: vscode.TextDocument,
+        options: vscode.TextEditorOptions | undefined,
+        tabSize: number,
+    ): number {
+        const size = options?.indentSize;
+        if (typeof size === 'number') return size;
+
+        // `editor.indentSize` is language-overridable and defaults to following the tab size
+        const configured = vscode.workspace
+            .getConfiguration('editor', doc)
+            .get<number | string>('indentSize', 'tabSize');
+        if (typeof configured === 'number') return configured;
+        return parseInt(configured, 10) || tabSize;
     }
 }
@@ -0,0 +1,124 @@
+import type { LineAnalysis } from './IndentationEngine';
+
+/**
+ * - `dedent`: the line dedents to a width that no enclosing block uses
+ * - `jump`: the line indents by more than one level in a single step
+ */
+export type StructureIssue = 'dedent' | 'jump';
+
+export interface StructureState {
+    /** Issue per analysed line; null when the line is fine or skipped */
+    issues: (StructureIssue | null)[];
+    /** Lines before this index have been analysed */
+    validUntil: number;
+    /** Indentation stack (visual widths) as of `validUntil`; rebuilt lazily when null */
+    stack: number[] | null;
+    /** Ignored lines the issues were computed against */
+    ignoredLines: Set<number> | null;
+}
+
+export type LineAnalysisProvider = (line: number) => LineAnalysis;
+export type SkippedLinePredicate = (line: number) => boolean;
+
+export class IndentStructureAnalyzer {
+    public static createState(): StructureState {
+        return { issues: [], validUntil: 0, stack: [0], ignoredLines: null };
+    }
+
+    /** Drops results from `line` onwards; earlier lines only depend on what precedes them. */
+    public static invalidateFrom(state: StructureState, line: number): void {
+        if (line >= state.validUntil) return;
+        state.issues.length = Math.max(0, line);
+        state.validUntil = Math.max(0, line);
+        state.stack = null;
+    }
+
+    /**
+     * Ignored lines are re-detected after every edit; results stay valid above the first
+     * line whose ignored status changed.
+     */
+    public static syncIgnoredLines(state: StructureState, ignoredLines: Set<number>): void {
+        const previous = state.ignoredLines;
+        state.ignoredLines = ignoredLines;
+        if (previous === ignoredLines) return;
+        if (!previous) {
+            this.invalidateFrom(state, 0);
+            return;
+        }
+
+        let firstChange = Infinity;
+        for (const line of ignoredLines) {
+            if (!previous.has(line)) firstChange = Math.min(firstChange, line);
+        }
+        for (const line of previous) {
+            if (!ignoredLines.has(line)) firstChange = Math.min(firstChange, line);
+        }
+        if (firstChange !== Infinity) this.invalidateFrom(state, firstChange);
+    }
+
+    /**
+     * Walks the document forward up to `targetLine`, keeping a stack of open indentation
+     * widths the way a Python tokenizer does, and records issues for each line.
+     */
+    public static analyzeThrough(
+        state: StructureState,
+        targetLine: number,
+        indentSize: number,
+        isSkipped: SkippedLinePredicate,
+        analyzeLine: LineAnalysisProvider,
+    ): void {
+        if (targetLine < state.validUntil) return;
+
+        const stack = state.stack ?? this.rebuildStack(state.validUntil, isSkipped, analyzeLine);
+
+        for (let i = state.validUntil; i <= targetLine; i++) {
+            state.issues[i] = null;
+            if (isSkipped(i)) continue;
+
+            const width = analyzeLine(i).visualWidth;
+            let top = stack[stack.length - 1];
+
+            if (width > top) {
+                if (width - top > indentSize) state.issues[i] = 'jump';
+                stack.push(width);
+            } else if (width < top) {
+                while (stack.length > 1 && top > width) {
+                    stack.pop();
+                    top = stack[stack.length - 1];
+                }
+                if (top !== width) {
+                    state.issues[i] = 'dedent';
+                    stack.push(width);
+                }
+            }
+        }
+
+        state.stack = stack;
+        state.validUntil = targetLine + 1;
+    }
+
+    /**
+     * The stack at a line is the chain of strictly narrower widths found by looking back,
+     * so it can be recovered without replaying the document from the start.
+     */
+    private static rebuildStack(
+        line: number,
+        isSkipped: SkippedLinePredicate,
+        analyzeLine: LineAnalysisProvider,
+    ): number[] {
+        const chain: number[] = [];
+        let narrowest = Infinity;
+
+        for (let i = line - 1; i >= 0 && narrowest > 0; i--) {
+            if (isSkipped(i)) continue;
+            const width = analyzeLine(i).visualWidth;
+            if (width < narrowest) {
+                chain.push(width);
+                narrowest = width;
+            }
+        }
+
+        if (narrowest !== 0) chain.push(0);
+        return chain.reverse();
+    }
+}
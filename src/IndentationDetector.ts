@@ -0,0 +1,88 @@
+import type * as vscode from 'vscode';
+
+export interface DetectedIndentation {
+    /** Whether the document indents with tabs rather than spaces */
+    useTabs: boolean;
+    /** Indent unit in columns; only meaningful when indenting with spaces */
+    indentSize: number;
+    /** Share of sampled lines (0..1) that agree with the detected style and unit */
+    confidence: number;
+}
+
+const TAB_CHAR_CODE = 9;
+const SPACE_CHAR_CODE = 32;
+const MAX_SAMPLE_LINES = 1000;
+const MIN_INDENT_SIZE = 2;
+const MAX_INDENT_SIZE = 8;
+
+export class IndentationDetector {
+    /**
+     * Samples the leading whitespace of the document and infers the indent style and unit.
+     * Returns null when the sampled lines carry no indentation at all.
+     */
+    public static detect(doc: vscode.TextDocument): DetectedIndentation | null {
+        const sampleCount = Math.min(doc.lineCount, MAX_SAMPLE_LINES);
+        const deltaCounts = new Array<number>(MAX_INDENT_SIZE + 1).fill(0);
+        let tabLines = 0;
+        let spaceLines = 0;
+        let previousSpaces = 0;
+
+        for (let line = 0; line < sampleCount; line++) {
+            const text = doc.lineAt(line).text;
+            let spaces = 0;
+            let tabs = 0;
+            let i = 0;
+
+            for (; i < text.length; i++) {
+                const charCode = text.charCodeAt(i);
+                if (charCode === SPACE_CHAR_CODE) spaces++;
+                else if (charCode === TAB_CHAR_CODE) tabs++;
+                else break;
+            }
+
+            // Whitespace-only lines say nothing about the indentation structure
+            if (i === text.length) continue;
+
+            if (tabs > 0) {
+                if (text.charCodeAt(0) === TAB_CHAR_CODE) tabLines++;
+                continue;
+            }
+
+            if (spaces > 0) spaceLines++;
+
+            const delta = Math.abs(spaces - previousSpaces);
+            if (delta >= MIN_INDENT_SIZE && delta <= MAX_INDENT_SIZE) {
+                deltaCounts[delta]++;
+            }
+            previousSpaces = spaces;
+        }
+
+        const indentedLines = tabLines + spaceLines;
+        if (indentedLines === 0) return null;
+
+        if (tabLines > spaceLines) {
+            return { useTabs: true, indentSize: 0, confidence: tabLines / indentedLines };
+        }
+
+        let indentSize = 0;
+        let totalDeltas = 0;
+        for (let size = MIN_INDENT_SIZE; size <= MAX_INDENT_SIZE; size++) {
+            totalDeltas += deltaCounts[size];
+            if (deltaCounts[size] > deltaCounts[indentSize]) indentSize = size;
+        }
+        if (indentSize === 0) return null;
+
+        // Steps of several levels at once (e.g. closing two blocks) still agree with the unit
+        let agreeingDeltas = 0;
+        for (let size = indentSize; size <= MAX_INDENT_SIZE; size += indentSize) {
+            agreeingDeltas += deltaCounts[size];
+        }
+
+        const styleShare = spaceLines / indentedLines;
+        return {
+            useTabs: false,
+            indentSize,
+            confidence: styleShare * (agreeingDeltas / totalDeltas),
+        };
+    }
+}
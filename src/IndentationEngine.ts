@@ -1,23 +1,67 @@
+import type { LanguagePolicy } from './LanguageRules';
+
 export interface LineAnalysis {
     /**
      * Character positions (0-indexed) where indent boundaries occur.
      * Each value represents the position after which a new indent level starts.
      * For example: [4, 8] means indent boundaries after characters 4 and 8.
      * Used to create Range objects for decoration rendering.
+     * A tab wider than the indent size spans several levels, so its position may repeat.
      */
     blocks: number[];
     /** Total visual width of indentation accounting for tab expansion */
     visualWidth: number;
+    /** Number of leading whitespace characters that make up the indentation */
+    indentLength: number;
     /** Whether the line contains mixed tabs and spaces in indentation */
     isMixed: boolean;
-    /** Whether the indentation is malformed (not aligned to tab size) */
+    /** Whether the indentation is malformed (not aligned to the indent size) */
     isError: boolean;
+    /** Whether space-only indentation falls between indent levels */
+    isOffGrid: boolean;
+    /** Character index where smart-tabs alignment spaces start, or -1 when there are none */
+    alignmentStart: number;
+    /** Character indices of non-standard whitespace (NBSP, zero-width, ...) in the indentation */
+    invalidWhitespace: number[];
+    /** Whether the indentation breaks the language's indentation policy */
+    isPolicyViolation: boolean;
+    /** Character index where trailing whitespace after the content starts, or -1 */
+    trailingStart: number;
+    /** Whether the line is made only of whitespace (and is not empty) */
+    isBlankWithWhitespace: boolean;
+    /** Whether the line continues a statement from a previous line (hanging indent) */
+    isContinuation: boolean;
     /** Whether the line should be ignored based on ignore patterns */
     isIgnored: boolean;
 }
 
+export interface IndentWidths {
+    /** Visual width of a tab character, used to expand `\t` to the next tab stop */
+    tabSize: number;
+    /** Logical width of one indentation level, used to place block boundaries */
+    indentSize: number;
+}
+
+export interface AnalysisOptions {
+    /** Accept tab indentation followed by space alignment (`\t\t    foo,`) */
+    smartTabs?: boolean;
+    /** Language policy that the indentation must follow */
+    policy?: LanguagePolicy;
+    /** Report whitespace after the line's content */
+    trailingWhitespace?: boolean;
+    /** Report lines that hold nothing but whitespace */
+    blankLineWhitespace?: boolean;
+}
+
 const TAB_CHAR_CODE = 9;
 const SPACE_CHAR_CODE = 32;
+const NBSP_CHAR_CODE = 0xa0;
+const IDEOGRAPHIC_SPACE_CHAR_CODE = 0x3000;
+
+/** Zero-width characters that are invisible but still end up inside the indentation */
+const ZERO_WIDTH_CHAR_CODES = new Set([0x180e, 0x200b, 0x200c, 0x200d, 0x2060, 0xfeff]);
+/** Visible non-standard spaces, one column wide */
+const UNUSUAL_SPACE_CHAR_CODES = new Set([NBSP_CHAR_CODE, 0x1680, 0x202f, 0x205f]);
 
 export class IndentationEngine {
     public static analyzeLine(
@@ -25,73 +69,105 @@ export class IndentationEngine {
         tabSize: number,
         skipErrors: boolean,
         isIgnored: boolean,
+        indentSize: number = tabSize,
+        options: AnalysisOptions = {},
     ): LineAnalysis {
         if (isIgnored) {
-            return {
-                blocks: [],
-                visualWidth: 0,
-                isMixed: false,
-                isError: false,
-                isIgnored: true,
-            };
+            return this.emptyAnalysis(true);
         }
 
         const len = text.length;
         if (len === 0) {
-            return {
-                blocks: [],
-                visualWidth: 0,
-                isMixed: false,
-                isError: false,
-                isIgnored: false,
-            };
+            return this.emptyAnalysis(false);
         }
 
         // Fast check for non-indented lines to avoid array allocation
         const firstChar = text.charCodeAt(0);
-        if (firstChar !== SPACE_CHAR_CODE && firstChar !== TAB_CHAR_CODE) {
-            return {
-                blocks: [],
-                visualWidth: 0,
-                isMixed: false,
-                isError: false,
-                isIgnored: false,
-            };
+        if (
+            firstChar !== SPACE_CHAR_CODE &&
+            firstChar !== TAB_CHAR_CODE &&
+            this.invalidWhitespaceWidth(firstChar) === -1
+        ) {
+            const analysis = this.emptyAnalysis(false);
+            if (options.trailingWhitespace)
+                analysis.trailingStart = this.findTrailingStart(text, 1);
+            return analysis;
         }
 
         const blocks: number[] = [];
+        const invalidWhitespace: number[] = [];
         let visualWidth = 0;
         let hasTab = false;
         let hasSpace = false;
+        let hasSpaceBeforeTab = false;
+        let firstSpace = -1;
+        let spacesAfterTab = 0;
         let i = 0;
 
-        let nextTabBoundary = tabSize;
+        let nextIndentBoundary = indentSize;
 
         for (; i < len; i++) {
             const charCode = text.charCodeAt(i);
 
             if (charCode === SPACE_CHAR_CODE) {
+                if (!hasSpace) firstSpace = i;
                 hasSpace = true;
+                spacesAfterTab++;
                 visualWidth++;
-                if (visualWidth === nextTabBoundary) {
+                if (visualWidth === nextIndentBoundary) {
                     blocks.push(i + 1);
-                    nextTabBoundary += tabSize;
+                    nextIndentBoundary += indentSize;
                 }
             } else if (charCode === TAB_CHAR_CODE) {
+                if (hasSpace) hasSpaceBeforeTab = true;
                 hasTab = true;
-                visualWidth = nextTabBoundary;
-                blocks.push(i + 1);
-                nextTabBoundary += tabSize;
+                spacesAfterTab = 0;
+                visualWidth = (Math.floor(visualWidth / tabSize) + 1) * tabSize;
+                // A wide tab may span several indent levels (e.g. 8-column tabs, 4-column indents)
+                while (visualWidth >= nextIndentBoundary) {
+                    blocks.push(i + 1);
+                    nextIndentBoundary += indentSize;
+                }
             } else {
-                break;
+                const width = this.invalidWhitespaceWidth(charCode);
+                if (width === -1) break;
+                // Still counted so the bands after a pasted NBSP stay aligned
+                invalidWhitespace.push(i);
+                visualWidth += width;
+                while (visualWidth >= nextIndentBoundary) {
+                    blocks.push(i + 1);
+                    nextIndentBoundary += indentSize;
+                }
+            }
+        }
+
+        // Tabs wider than the indent step (Emacs style) leave odd levels to spaces after them
+        const spacesFollowTabs = hasTab && hasSpace && !hasSpaceBeforeTab;
+        const isIndentStep =
+            spacesFollowTabs && spacesAfterTab % indentSize === 0 && spacesAfterTab < tabSize;
+
+        // Smart tabs: tabs carry the levels, trailing spaces only align the content
+        const isAlignment = !!options.smartTabs && spacesFollowTabs && !isIndentStep;
+        if (isAlignment) {
+            while (blocks.length > 0 && blocks[blocks.length - 1] > firstSpace) {
+                blocks.pop();
             }
         }
 
-        const isMixed = hasTab && hasSpace;
+        const isMixed = hasTab && hasSpace && !isAlignment && !isIndentStep;
 
-        // Check alignment
-        const isAligned = visualWidth === nextTabBoundary - tabSize;
+        // Check alignment against the logical indent grid
+        const isAligned = isAlignment || visualWidth === nextIndentBoundary - indentSize;
         const isError = hasTab && visualWidth > 0 && !isAligned && !skipErrors;
+        // Whitespace-only lines carry no structure, so stray spaces there are not off-grid
+        const hasContent = i < len;
+        const isOffGrid = !hasTab && hasContent && visualWidth > 0 && !isAligned && !skipErrors;
+
+        const isPolicyViolation =
+            options.policy !== undefined &&
+            hasContent &&
+            !skipErrors &&
+            this.violatesPolicy(options.policy, hasTab, hasSpace && !isAlignment, visualWidth);
 
         if (isError) {
             blocks.push(i);
@@ -100,9 +176,90 @@ export class IndentationEngine {
         return {
             blocks,
             visualWidth,
+            indentLength: i,
             isMixed,
             isError,
+            isOffGrid,
+            alignmentStart: isAlignment ? firstSpace : -1,
+            invalidWhitespace,
+            isPolicyViolation,
+            trailingStart:
+                options.trailingWhitespace && hasContent ? this.findTrailingStart(text, i + 1) : -1,
+            isBlankWithWhitespace: !!options.blankLineWhitespace && !hasContent,
+            isContinuation: false,
             isIgnored: false,
         };
     }
+
+    /**
+     * Re-renders a continuation line with the levels of the statement it continues. Hanging
+     * indents need not sit on the indent grid, so grid errors no longer apply.
+     */
+    public static asContinuation(analysis: LineAnalysis, parent: LineAnalysis): LineAnalysis {
+        const ownLevels = analysis.blocks.length - (analysis.isError ? 1 : 0);
+        const parentLevels = parent.blocks.length - (parent.isError ? 1 : 0);
+
+        return {
+            ...analysis,
+            blocks: analysis.blocks.slice(0, Math.min(ownLevels, parentLevels)),
+            isError: false,
+            isOffGrid: false,
+            alignmentStart: -1,
+            isContinuation: true,
+        };
+    }
+
+    /** Returns the index where trailing spaces and tabs start, or -1 when there are none. */
+    private static findTrailingStart(text: string, contentEnd: number): number {
+        let start = text.length;
+        while (start > contentEnd) {
+            const charCode = text.charCodeAt(start - 1);
+            if (charCode !== SPACE_CHAR_CODE && charCode !== TAB_CHAR_CODE) break;
+            start--;
+        }
+        return start < text.length ? start : -1;
+    }
+
+    /** Returns the visual width of a non-standard whitespace character, or -1 for any other. */
+    private static invalidWhitespaceWidth(charCode: number): number {
+        if (charCode === IDEOGRAPHIC_SPACE_CHAR_CODE) return 2;
+        if (ZERO_WIDTH_CHAR_CODES.has(charCode)) return 0;
+        if (UNUSUAL_SPACE_CHAR_CODES.has(charCode)) return 1;
+        // En quad through hair space (U+2000..U+200A)
+        if (charCode >= 0x2000 && charCode <= 0x200a) return 1;
+        return -1;
+    }
+
+    private static violatesPolicy(
+        policy: LanguagePolicy,
+        hasTab: boolean,
+        hasIndentSpace: boolean,
+        visualWidth: number,
+    ): boolean {
+        if (policy.style === 'tabs' && hasIndentSpace) return true;
+        if (policy.style === 'spaces' && hasTab) return true;
+        if (policy.mixedIsFatal && hasTab && hasIndentSpace) return true;
+        if (policy.widths && !hasTab) {
+            return policy.widths.every((width) => visualWidth % width !== 0);
+        }
+        return false;
+    }
+
+    private static emptyAnalysis(isIgnored: boolean): LineAnalysis {
+        return {
+            blocks: [],
+            visualWidth: 0,
+            indentLength: 0,
+            isMixed: false,
+            isError: false,
+            isOffGrid: false,
+            alignmentStart: -1,
+            invalidWhitespace: [],
+            isPolicyViolation: false,
+            trailingStart: -1,
+            isBlankWithWhitespace: false,
+            isContinuation: false,
+            isIgnored,
+        };
+    }
 }
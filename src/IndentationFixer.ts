@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import type { LineAnalysisProvider } from './DecorationGenerator';
+import type { IndentWidths, LineAnalysis } from './IndentationEngine';
+
+/**
+ * - `tabs` / `spaces`: same width, rewritten with tabs (rounded to a tab stop) or spaces
+ * - `snap`: rounded to the nearest indent level, keeping the line's leading character
+ * - `matchPrevious`: copies the indentation of the previous non-blank line
+ */
+export const INDENT_FIXES = ['tabs', 'spaces', 'snap', 'matchPrevious'] as const;
+export type IndentFix = (typeof INDENT_FIXES)[number];
+
+export interface IndentStyle {
+    useTabs: boolean;
+    /** Columns per level */
+    indentSize: number;
+}
+
+export interface IndentDepth {
+    levels: number;
+    /** Columns past the last whole level: alignment or a hanging indent */
+    remainder: number;
+}
+
+export class IndentationFixer {
+    /** Lines the fixes are offered for: misaligned tab indentation or mixed tabs and spaces. */
+    public static needsFix(line: LineAnalysis): boolean {
+        return !line.isIgnored && (line.isError || line.isMixed);
+    }
+
+    /** Indentation `width` columns wide, in tabs of `tabSize` columns plus spaces, or spaces. */
+    public static render(width: number, useTabs: boolean, tabSize: number): string {
+        if (!useTabs) return ' '.repeat(width);
+        return '\t'.repeat(Math.floor(width / tabSize)) + ' '.repeat(width % tabSize);
+    }
+
+    /** Splits a line's indentation into whole levels of `indentSize` and the columns past them. */
+    public static measure(line: LineAnalysis, indentSize: number): IndentDepth {
+        // A misaligned line carries an extra block marking where the error ends
+        const levels = line.blocks.length - (line.isError ? 1 : 0);
+        return { levels, remainder: Math.max(0, line.visualWidth - levels * indentSize) };
+    }
+
+    /**
+     * Indentation for `depth` in `style`. Tabs fill whole tab stops of `tabSize` columns, so a
+     * level narrower than a tab (8-column tabs, 4-column levels) ends in spaces; the remainder
+     * always stays as alignment spaces.
+     */
+    public static renderDepth(depth: IndentDepth, style: IndentStyle, tabSize: number): string {
+        const levels = this.render(depth.levels * style.indentSize, style.useTabs, tabSize);
+        return levels + ' '.repeat(depth.remainder);
+    }
+
+    /** Returns the new indentation for the line, or null when `fix` would not change it. */
+    public static fixIndent(
+        doc: vscode.TextDocument,
+        lineNumber: number,
+        analyzeLine: LineAnalysisProvider,
+        widths: IndentWidths,
+        fix: IndentFix,
+    ): string | null {
+        const line = analyzeLine(lineNumber);
+        if (line.isIgnored) return null;
+        const indent = doc.lineAt(lineNumber).text.slice(0, line.indentLength);
+
+        let fixed: string | null;
+        switch (fix) {
+            case 'tabs':
+                fixed = '\t'.repeat(Math.round(line.visualWidth / widths.tabSize));
+                break;
+            case 'spaces':
+                fixed = ' '.repeat(line.visualWidth);
+                break;
+            case 'snap': {
+                const levels = Math.round(line.visualWidth / widths.indentSize);
+                fixed = this.render(
+                    levels * widths.indentSize,
+                    indent.startsWith('\t'),
+                    widths.tabSize,
+                );
+                break;
+            }
+            case 'matchPrevious':
+                fixed = this.previousIndent(doc, lineNumber, analyzeLine);
+                break;
+        }
+
+        return fixed === null || fixed === indent ? null : fixed;
+    }
+
+    /** One edit per changed line; applied together they form a single undo step. */
+    public static createEdits(
+        doc: vscode.TextDocument,
+        lines: Iterable<number>,
+        analyzeLine: LineAnalysisProvider,
+        widths: IndentWidths,
+        fix: IndentFix,
+    ): vscode.TextEdit[] {
+        const edits: vscode.TextEdit[] = [];
+        for (const lineNumber of lines) {
+            const fixed = this.fixIndent(doc, lineNumber, analyzeLine, widths, fix);
+            if (fixed === null) continue;
+            const indentLength = analyzeLine(lineNumber).indentLength;
+            edits.push(
+                vscode.TextEdit.replace(
+                    new vscode.Range(lineNumber, 0, lineNumber, indentLength),
+                    fixed,
+                ),
+            );
+        }
+        return edits;
+    }
+
+    private static previousIndent(
+        doc: vscode.TextDocument,
+        lineNumber: number,
+        analyzeLine: LineAnalysisProvider,
+    ): string | null {
+        for (let i = lineNumber - 1; i >= 0; i--) {
+            const line = analyzeLine(i);
+            if (line.isIgnored || doc.lineAt(i).isEmptyOrWhitespace) continue;
+            return doc.lineAt(i).text.slice(0, line.indentLength);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,89 @@
+export interface LanguagePolicy {
+    /** Indentation character the language requires */
+    style?: 'tabs' | 'spaces';
+    /** Accepted space indent widths; a space-indented line must be a multiple of one of them */
+    widths?: number[];
+    /** Whether mixing tabs and spaces on one line violates the policy */
+    mixedIsFatal?: boolean;
+    /** Only check Makefile recipe lines: the indented lines under a `target:` rule line */
+    recipesOnly?: boolean;
+}
+
+/** An unindented `target: prerequisites` line; `:=` and `::=` are assignments */
+const RULE_LINE_REGEX = /^[^\s#=][^=]*?:(?![:=])/;
+/** Lines searched upwards for the rule line of a recipe */
+const MAX_RECIPE_LOOKBACK = 500;
+
+export const DEFAULT_LANGUAGE_RULES: Record<string, LanguagePolicy> = {
+    makefile: { style: 'tabs', recipesOnly: true },
+    go: { style: 'tabs' },
+    yaml: { style: 'spaces' },
+    python: { mixedIsFatal: true },
+};
+
+export class LanguageRules {
+    /**
+     * Merges user rules over the built-in defaults. A `null` user entry removes the
+     * built-in rule for that language; invalid entries are skipped.
+     */
+    public static resolve(
+        userRules: Record<string, LanguagePolicy | null>,
+    ): Map<string, LanguagePolicy> {
+        const rules = new Map(Object.entries(DEFAULT_LANGUAGE_RULES));
+
+        for (const [languageId, rawPolicy] of Object.entries(userRules)) {
+            if (rawPolicy === null) {
+                rules.delete(languageId);
+                continue;
+            }
+            const policy = this.sanitize(rawPolicy);
+            if (policy) rules.set(languageId, policy);
+        }
+
+        return rules;
+    }
+
+    /**
+     * Whether `line` belongs to a recipe: the lines above it up to the nearest unindented line
+     * are indented, blank or comments, and that line is a rule. A line continuing a backslash
+     * line is part of its command and never counts, so it may be indented freely.
+     */
+    public static isRecipeLine(line: number, getText: (line: number) => string): boolean {
+        if (line > 0 && getText(line - 1).endsWith('\\')) return false;
+
+        const stop = Math.max(0, line - MAX_RECIPE_LOOKBACK);
+        for (let i = line - 1; i >= stop; i--) {
+            const text = getText(i);
+            const trimmed = text.trimStart();
+            if (trimmed.length === 0 || trimmed.startsWith('#') || trimmed !== text) continue;
+            // An unindented line continuing a backslash line belongs to the line above
+            if (i > 0 && getText(i - 1).endsWith('\\')) continue;
+            return RULE_LINE_REGEX.test(text);
+        }
+        return false;
+    }
+
+    private static sanitize(raw: unknown): LanguagePolicy | null {
+        if (typeof raw !== 'object' || raw === null) return null;
+        const candidate = raw as Record<string, unknown>;
+        const policy: LanguagePolicy = {};
+
+        if (candidate.style === 'tabs' || candidate.style === 'spaces') {
+            policy.style = candidate.style;
+        }
+        if (Array.isArray(candidate.widths)) {
+            const widths = candidate.widths.filter(
+                (width): width is number => Number.isInteger(width) && width > 0,
+            );
+            if (widths.length > 0) policy.widths = widths;
+        }
+        if (typeof candidate.mixedIsFatal === 'boolean') {
+            policy.mixedIsFatal = candidate.mixedIsFatal;
+        }
+        if (typeof candidate.recipesOnly === 'boolean') {
+            policy.recipesOnly = candidate.recipesOnly;
+        }
+
+        return Object.keys(policy).length > 0 ? policy : null;
+    }
+}
@@ -0,0 +1,150 @@
+import type * as vscode from 'vscode';
+
+export interface ModelineIndent {
+    tabSize?: number;
+    indentSize?: number;
+    useTabs?: boolean;
+}
+
+/** Number of lines at the start and at the end of a document searched for modelines */
+export const MODELINE_SCAN_LINES = 5;
+
+/** `ex:` is a common word ending, so it only counts in the `ex: set ...:` form */
+const VIM_MODELINE_REGEX =
+    /(?:^|\s)(?:(?:vi|vim|Vim)(?:[<=>]?\d+)?:|ex:(?=\s*se(?:t)?\s+[^:]*:))\s*(?:se(?:t)?\s+([^:]*):|(.*))/;
+const EMACS_MODELINE_REGEX = /-\*-(.*)-\*-/;
+const KATE_MODELINE_REGEX = /\bkate:(.*)/;
+const EMACS_LOCAL_VARIABLE_REGEX = /^\W*([\w-]+):\s*(\S+)/;
+const EMACS_INDENT_OFFSET_REGEX = /(?:^|-)(?:basic-offset|indent-offset|indent-level|indent)$/;
+
+export class ModelineParser {
+    /** Scans the first and last lines of the document for vim, emacs and kate modelines. */
+    public static scan(doc: vscode.TextDocument): ModelineIndent | null {
+        const lineCount = doc.lineCount;
+        const headEnd = Math.min(lineCount, MODELINE_SCAN_LINES);
+        const tailStart = Math.max(headEnd, lineCount - MODELINE_SCAN_LINES);
+        const result: ModelineIndent = {};
+        let inLocalVariables = false;
+
+        const visit = (line: number): void => {
+            const text = doc.lineAt(line).text;
+
+            // Emacs "Local Variables:" blocks list one variable per line until "End:"
+            if (text.includes('Local Variables:')) {
+                inLocalVariables = true;
+                return;
+            }
+            if (inLocalVariables) {
+                const match = text.match(EMACS_LOCAL_VARIABLE_REGEX);
+                if (!match || match[1] === 'End') {
+                    inLocalVariables = false;
+                    return;
+                }
+                const variable: ModelineIndent = {};
+                this.applyEmacsVariable(variable, match[1], match[2]);
+                Object.assign(result, this.compact(variable));
+                return;
+            }
+
+            Object.assign(result, this.parseLine(text));
+        };
+
+        for (let i = 0; i < headEnd; i++) visit(i);
+        for (let i = tailStart; i < lineCount; i++) visit(i);
+
+        return Object.keys(result).length > 0 ? result : null;
+    }
+
+    public static parseLine(text: string): ModelineIndent {
+        const result: ModelineIndent = {};
+
+        const emacs = text.match(EMACS_MODELINE_REGEX);
+        if (emacs) {
+            for (const entry of emacs[1].split(';')) {
+                const separator = entry.indexOf(':');
+                if (separator === -1) continue;
+                this.applyEmacsVariable(
+                    result,
+                    entry.slice(0, separator).trim(),
+                    entry.slice(separator + 1).trim(),
+                );
+            }
+            return this.compact(result);
+        }
+
+        const kate = text.match(KATE_MODELINE_REGEX);
+        if (kate) {
+            for (const entry of kate[1].split(';')) {
+                const [key, value] = entry.trim().split(/\s+/);
+                if (key === 'tab-width') result.tabSize = this.parseWidth(value);
+                else if (key === 'indent-width') result.indentSize = this.parseWidth(value);
+                else if (key === 'replace-tabs' || key === 'space-indent') {
+                    result.useTabs = !this.isKateOn(value);
+                }
+            }
+            return this.compact(result);
+        }
+
+        const vim = text.match(VIM_MODELINE_REGEX);
+        if (vim) {
+            // The `set` form ends at the first colon; the plain form separates options by colons
+            const options = vim[1] !== undefined ? vim[1].split(/\s+/) : vim[2].split(/[\s:]+/);
+            let shiftWidth: number | undefined;
+            for (const option of options) {
+                const [name, value] = option.split('=');
+                if (name === 'ts' || name === 'tabstop') result.tabSize = this.parseWidth(value);
+                else if (name === 'sw' || name === 'shiftwidth') shiftWidth = parseInt(value, 10);
+                else if (name === 'et' || name === 'expandtab') result.useTabs = false;
+                else if (name === 'noet' || name === 'noexpandtab') result.useTabs = true;
+            }
+
+            // shiftwidth=0 follows the tabstop
+            if (shiftWidth === 0) result.indentSize = result.tabSize;
+            else if (shiftWidth !== undefined && shiftWidth > 0) result.indentSize = shiftWidth;
+        }
+
+        return this.compact(result);
+    }
+
+    /** Whether any change in the event touches the lines that may hold modelines. */
+    public static touchesModelines(event: vscode.TextDocumentChangeEvent): boolean {
+        let lineDelta = 0;
+        for (const change of event.contentChanges) {
+            const linesAdded = (change.text.match(/\n/g) ?? []).length;
+            lineDelta += linesAdded - (change.range.end.line - change.range.start.line);
+        }
+
+        const previousLineCount = event.document.lineCount - lineDelta;
+        return event.contentChanges.some(
+            (change) =>
+                change.range.start.line < MODELINE_SCAN_LINES ||
+                change.range.end.line >= previousLineCount - MODELINE_SCAN_LINES,
+        );
+    }
+
+    private static applyEmacsVariable(result: ModelineIndent, name: string, value: string): void {
+        if (name === 'tab-width') {
+            result.tabSize = this.parseWidth(value);
+        } else if (name === 'indent-tabs-mode') {
+            result.useTabs = value !== 'nil';
+        } else if (EMACS_INDENT_OFFSET_REGEX.test(name)) {
+            result.indentSize = this.parseWidth(value);
+        }
+    }
+
+    private static isKateOn(value: string | undefined): boolean {
+        return value === 'on' || value === 'true' || value === '1';
+    }
+
+    private static parseWidth(value: string | undefined): number | undefined {
+        const width = parseInt(value ?? '', 10);
+        return width > 0 ? width : undefined;
+    }
+
+    private static compact(result: ModelineIndent): ModelineIndent {
+        for (const key of Object.keys(result) as (keyof ModelineIndent)[]) {
+            if (result[key] === undefined) delete result[key];
+        }
+        return result;
+    }
+}
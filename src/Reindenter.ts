@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { ContinuationTracker } from './ContinuationTracker';
+import { IndentationEngine } from './IndentationEngine';
+import { IndentationFixer, type IndentDepth, type IndentStyle } from './IndentationFixer';
+
+const SPACE_WIDTHS = [2, 3, 4, 8];
+/** A statement line ending in an opener or backslash continues with a hanging indent */
+const HANGING_OPENER_REGEX = /[([{\\]\s*$/;
+
+interface StyleItem extends vscode.QuickPickItem {
+    style: IndentStyle;
+}
+
+export class Reindenter {
+    /**
+     * Re-indents every line from `source` to `target`, level for level. Columns past the last
+     * level stay as alignment. A continuation line keeps its offset from the statement it
+     * continues, so it stays aligned with the content after an opening bracket; when the
+     * statement line ends with the bracket, whole source levels of offset are a hanging indent
+     * and are scaled like levels. Ignored and blank lines are untouched.
+     */
+    public static computeEdits(
+        doc: vscode.TextDocument,
+        source: IndentStyle,
+        target: IndentStyle,
+        tabSize: number,
+        ignoredLines: ReadonlySet<number>,
+    ): vscode.TextEdit[] {
+        const sourceUnit = source.useTabs ? tabSize : source.indentSize;
+        // Re-indenting to tabs puts one tab per level
+        const targetStyle = target.useTabs ? { useTabs: true, indentSize: tabSize } : target;
+        const continuation = ContinuationTracker.createState(doc.languageId);
+        const getText = (line: number): string => doc.lineAt(line).text;
+        const depths: IndentDepth[] = [];
+        const sourceWidths: number[] = [];
+        const edits: vscode.TextEdit[] = [];
+
+        for (let i = 0; i < doc.lineCount; i++) {
+            const text = getText(i);
+            const line = IndentationEngine.analyzeLine(text, tabSize, false, false, sourceUnit);
+            depths[i] = IndentationFixer.measure(line, sourceUnit);
+            sourceWidths[i] = line.visualWidth;
+
+            const parent = ContinuationTracker.parentLineOf(continuation, i, getText);
+            if (parent !== -1) {
+                const parentDepth = depths[parent];
+                const offset = line.visualWidth - sourceWidths[parent];
+                const isHanging = HANGING_OPENER_REGEX.test(getText(parent));
+                if (isHanging && offset >= 0 && offset % sourceUnit === 0) {
+                    depths[i] = {
+                        ...parentDepth,
+                        levels: parentDepth.levels + offset / sourceUnit,
+                    };
+                } else if (offset > 0) {
+                    depths[i] = { ...parentDepth, remainder: parentDepth.remainder + offset };
+                }
+            }
+
+            if (ignoredLines.has(i) || doc.lineAt(i).isEmptyOrWhitespace) continue;
+            const indent = IndentationFixer.renderDepth(depths[i], targetStyle, tabSize);
+            if (indent === text.slice(0, line.indentLength)) continue;
+            edits.push(
+                vscode.TextEdit.replace(new vscode.Range(i, 0, i, line.indentLength), indent),
+            );
+        }
+
+        return edits;
+    }
+
+    /** Offers tabs and the common space widths, with `preferred` first. */
+    public static async pickStyle(
+        title: string,
+        preferred: IndentStyle | null,
+        preferredDescription: string,
+    ): Promise<IndentStyle | undefined> {
+        const items: StyleItem[] = [
+            { label: 'Tabs', style: { useTabs: true, indentSize: 0 } },
+            ...SPACE_WIDTHS.map((width) => ({
+                label: `${width} spaces`,
+                style: { useTabs: false, indentSize: width },
+            })),
+        ];
+
+        const index = preferred
+            ? items.findIndex(
+                  (item) =>
+                      item.style.useTabs === preferred.useTabs &&
+                      (preferred.useTabs || item.style.indentSize === preferred.indentSize),
+              )
+            : -1;
+        if (index !== -1) {
+            const [item] = items.splice(index, 1);
+            items.unshift({ ...item, description: preferredDescription });
+        } else if (preferred) {
+            items.unshift({
+                label: `${preferred.indentSize} spaces`,
+                description: preferredDescription,
+                style: preferred,
+            });
+        }
+
+        const picked = await vscode.window.showQuickPick(items, { title });
+        return picked?.style;
+    }
+}
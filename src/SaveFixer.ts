@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { FixOnSave } from './ConfigurationManager';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+import { IndentationFixer } from './IndentationFixer';
+
+export interface SaveFixResult {
+    edits: vscode.TextEdit[];
+    /** Lines rewritten at the same width in the document's style */
+    mixedLines: number[];
+    /** Lines snapped to the nearest indent level */
+    misalignedLines: number[];
+}
+
+type FixAnalysis = Pick<DocumentAnalysis, 'widths' | 'analyzeLine'>;
+
+export class SaveFixer implements vscode.Disposable {
+    private output: vscode.LogOutputChannel | null = null;
+
+    constructor(private readonly analyze: DocumentAnalyzer) {}
+
+    /**
+     * Mixed lines keep their width and are rewritten in the document's style; misaligned
+     * lines are snapped to the nearest level. A line that is both counts as misaligned unless
+     * only mixed lines are fixed. In tabs, a mixed line whose spaces are not a whole level
+     * would be rebuilt unchanged, so it is snapped as well. Ignored lines are never touched.
+     */
+    public static computeFixes(
+        doc: vscode.TextDocument,
+        analysis: FixAnalysis,
+        mode: FixOnSave,
+        useTabs: boolean,
+    ): SaveFixResult {
+        const { tabSize, indentSize } = analysis.widths;
+        const result: SaveFixResult = { edits: [], mixedLines: [], misalignedLines: [] };
+        if (mode === FixOnSave.Off) return result;
+
+        for (let i = 0; i < doc.lineCount; i++) {
+            const line = analysis.analyzeLine(i);
+            if (line.isIgnored) continue;
+            const fixError = line.isError && mode !== FixOnSave.Mixed;
+            const fixMixed = line.isMixed && mode !== FixOnSave.Errors;
+            if (!fixError && !fixMixed) continue;
+
+            const snapsToLevel = fixError || (useTabs && line.visualWidth % indentSize !== 0);
+            const width = snapsToLevel
+                ? Math.round(line.visualWidth / indentSize) * indentSize
+                : line.visualWidth;
+            const indent = IndentationFixer.render(width, useTabs, tabSize);
+            if (indent === doc.lineAt(i).text.slice(0, line.indentLength)) continue;
+
+            result.edits.push(
+                vscode.TextEdit.replace(new vscode.Range(i, 0, i, line.indentLength), indent),
+            );
+            (fixError ? result.misalignedLines : result.mixedLines).push(i);
+        }
+
+        return result;
+    }
+
+    /** Fixes the document as part of the save and logs the lines that changed. */
+    public async fixBeforeSave(
+        doc: vscode.TextDocument,
+        mode: FixOnSave,
+        useTabs: boolean,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.TextEdit[]> {
+        const analysis = await this.analyze(doc, token);
+        if (!analysis || token.isCancellationRequested) return [];
+
+        const result = SaveFixer.computeFixes(doc, analysis, mode, useTabs);
+        if (result.edits.length > 0) this.report(doc, result);
+        return result.edits;
+    }
+
+    public dispose(): void {
+        this.output?.dispose();
+        this.output = null;
+    }
+
+    private report(doc: vscode.TextDocument, result: SaveFixResult): void {
+        this.output ??= vscode.window.createOutputChannel('Indent Spectra', { log: true });
+
+        const lineList = (lines: number[]): string => lines.map((line) => line + 1).join(', ');
+        const details = [
+            result.mixedLines.length > 0 ? `mixed: ${lineList(result.mixedLines)}` : '',
+            result.misalignedLines.length > 0
+                ? `misaligned: ${lineList(result.misalignedLines)}`
+                : '',
+        ].filter(Boolean);
+        const count = result.edits.length;
+        this.output.info(
+            `Fixed the indentation of ${count} ${count === 1 ? 'line' : 'lines'} in ` +
+                `${vscode.workspace.asRelativePath(doc.uri)} (${details.join('; ')})`,
+        );
+    }
+}
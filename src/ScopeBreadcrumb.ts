@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis, DocumentAnalyzer } from './IndentSpectra';
+import { ScopeFinder } from './ScopeFinder';
+
+export interface ScopeHeader {
+    line: number;
+    label: string;
+}
+
+type ScopeAnalysis = Pick<DocumentAnalysis, 'ignoredLines' | 'analyzeLine'>;
+
+const SEPARATOR = ' › ';
+const MAX_LABEL_LENGTH = 40;
+/** Headers shown in the status bar; the tooltip and quick pick list all of them */
+const MAX_STATUS_BAR_HEADERS = 4;
+/** Trailing block openers that add nothing to a breadcrumb */
+const TRAILING_OPENER_REGEX = /\s*[:{]?\s*$/;
+
+export class ScopeBreadcrumb implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private hoverRegistration: vscode.Disposable | null = null;
+
+    constructor(private readonly analyze: DocumentAnalyzer) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this.statusBarItem.name = 'Indent Spectra Scope';
+        this.statusBarItem.command = 'indentSpectra.showScopeAncestors';
+    }
+
+    /** Header lines of every block around `line`, outermost first. */
+    public static collectHeaders(
+        doc: vscode.TextDocument,
+        line: number,
+        analysis: ScopeAnalysis,
+    ): ScopeHeader[] {
+        return ScopeFinder.findHeaderLines(doc, line, analysis.ignoredLines, analysis.analyzeLine)
+            .reverse()
+            .map((header) => ({ line: header, label: this.toLabel(doc.lineAt(header).text) }));
+    }
+
+    /** `class Foo:` becomes `class Foo`; long headers are cut short. */
+    public static toLabel(text: string): string {
+        const label = text.trim().replace(TRAILING_OPENER_REGEX, '');
+        return label.length > MAX_LABEL_LENGTH ? label.slice(0, MAX_LABEL_LENGTH - 1) + '…' : label;
+    }
+
+    public static format(headers: readonly ScopeHeader[]): string {
+        return headers.map((header) => header.label).join(SEPARATOR);
+    }
+
+    /** Shows the chain for the editor's cursor; hides the item when there is none. */
+    public async update(
+        editor: vscode.TextEditor | undefined,
+        token: vscode.CancellationToken,
+    ): Promise<void> {
+        const headers = editor
+            ? await this.headersAt(editor.document, editor.selection.active, token)
+            : [];
+        if (token.isCancellationRequested) return;
+
+        if (headers.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const shown = headers.slice(-MAX_STATUS_BAR_HEADERS);
+        const prefix = shown.length < headers.length ? '…' + SEPARATOR : '';
+        this.statusBarItem.text = `$(list-tree) ${prefix}${ScopeBreadcrumb.format(shown)}`;
+        this.statusBarItem.tooltip = this.createTooltip(headers);
+        this.statusBarItem.show();
+    }
+
+    public hide(): void {
+        this.statusBarItem.hide();
+    }
+
+    /** Hovering a line's indentation shows the chain of blocks the line sits in. */
+    public setHoverEnabled(enabled: boolean): void {
+        if (enabled === (this.hoverRegistration !== null)) return;
+
+        this.hoverRegistration?.dispose();
+        this.hoverRegistration = enabled
+            ? vscode.languages.registerHoverProvider('*', {
+                  provideHover: async (doc, position, token) => {
+                      const indentEnd = doc.lineAt(position.line).firstNonWhitespaceCharacterIndex;
+                      if (position.character >= indentEnd) return null;
+
+                      const headers = await this.headersAt(doc, position, token);
+                      if (headers.length === 0) return null;
+                      return new vscode.Hover(
+                          this.createTooltip(headers),
+                          new vscode.Range(position.line, 0, position.line, indentEnd),
+                      );
+                  },
+              })
+            : null;
+    }
+
+    /** Lets the user pick one of the enclosing headers and moves the cursor there. */
+    public async showAncestors(editor: vscode.TextEditor): Promise<void> {
+        const tokenSource = new vscode.CancellationTokenSource();
+        try {
+            const headers = await this.headersAt(
+                editor.document,
+                editor.selection.active,
+                tokenSource.token,
+            );
+            if (headers.length === 0) return;
+
+            const picked = await vscode.window.showQuickPick(
+                headers
+                    .map((header) => ({
+                        label: header.label,
+                        description: `Line ${header.line + 1}`,
+                        line: header.line,
+                    }))
+                    .reverse(),
+                { placeHolder: 'Go to an enclosing scope' },
+            );
+            if (!picked) return;
+
+            const character = editor.document.lineAt(picked.line).firstNonWhitespaceCharacterIndex;
+            const position = new vscode.Position(picked.line, character);
+            editor.selection = new vscode.Selection(position, position);
+            editor.revealRange(
+                new vscode.Range(position, position),
+                vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+            );
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+
+    public dispose(): void {
+        this.statusBarItem.dispose();
+        this.hoverRegistration?.dispose();
+        this.hoverRegistration = null;
+    }
+
+    private async headersAt(
+        doc: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+    ): Promise<ScopeHeader[]> {
+        const analysis = await this.analyze(doc, token);
+        if (!analysis || token.isCancellationRequested) return [];
+        return ScopeBreadcrumb.collectHeaders(doc, position.line, analysis);
+    }
+
+    private createTooltip(headers: readonly ScopeHeader[]): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        headers.forEach((header, depth) => {
+            tooltip.appendMarkdown('&nbsp;&nbsp;'.repeat(depth));
+            tooltip.appendText(header.label);
+            tooltip.appendMarkdown(` - _line ${header.line + 1}_  \n`);
+        });
+        return tooltip;
+    }
+}
@@ -1,4 +1,5 @@
 import type * as vscode from 'vscode';
+import { BranchKeywords } from './BranchKeywords';
 import type { LineAnalysis } from './IndentationEngine';
 
 export interface ScopeResult {
@@ -7,9 +8,56 @@ export interface ScopeResult {
     blockEnd: number;
 }
 
+export interface ScopeOptions {
+    /** Keywords such as `else` or `except` that continue the compound statement above */
+    branchKeywords?: ReadonlySet<string>;
+    /** Highlight a whole `if`/`else` chain instead of the branch the cursor is in */
+    compoundBranches?: boolean;
+}
+
+/** A block around a line, as found by `findEnclosingScopes` */
+export interface EnclosingScope {
+    /** Level whose guide runs through the body */
+    level: number;
+    /** First line of the statement that opens the block, or -1 when nothing does */
+    headerStart: number;
+    bodyStart: number;
+    bodyEnd: number;
+    /** Line of closing brackets right after the body, or -1 */
+    closingLine: number;
+}
+
 export type LineAnalysisProvider = (line: number) => LineAnalysis;
 
+/** A line made only of closing brackets, like the `}` before `else {` */
+const CLOSER_LINE_REGEX = /^\s*[)\]}]+[\s;]*$/;
+
 export class ScopeFinder {
+    /**
+     * Drops empty scopes and merges scopes of the same level whose lines overlap, so several
+     * cursors inside one block produce a single highlight. Sibling blocks stay apart even when
+     * one ends on the line where the next begins, keeping the markers of that line.
+     */
+    public static mergeScopes(scopes: readonly ScopeResult[]): ScopeResult[] {
+        const sorted = scopes
+            .filter((scope) => scope.highlightLevel !== -1)
+            .sort((a, b) => a.highlightLevel - b.highlightLevel || a.blockStart - b.blockStart);
+
+        const merged: ScopeResult[] = [];
+        for (const scope of sorted) {
+            const last = merged[merged.length - 1];
+            if (
+                last?.highlightLevel === scope.highlightLevel &&
+                (scope.blockStart < last.blockEnd || scope.blockStart === last.blockStart)
+            ) {
+                last.blockEnd = Math.max(last.blockEnd, scope.blockEnd);
+            } else {
+                merged.push({ ...scope });
+            }
+        }
+        return merged;
+    }
+
     public static findScope(
         doc: vscode.TextDocument,
         activeLineNum: number,
@@ -17,6 +65,7 @@ export class ScopeFinder {
         lineCount: number,
         ignoredLines: Set<number>,
         analyzeLine: LineAnalysisProvider,
+        options: ScopeOptions = {},
     ): ScopeResult {
         if (activeLineNum === -1) {
             return { highlightLevel: -1, blockStart: -1, blockEnd: -1 };
@@ -40,10 +89,13 @@ export class ScopeFinder {
         }
 
         // 2. Look Back (Previous Non-Empty Line)
+        // Continuation lines belong to the statement above them, so they never open or close
         let prevDepth = currentDepth;
         for (let i = activeLineNum - 1; i >= 0; i--) {
             if (!this.isEmptyOrIgnored(doc.lineAt(i).text, ignoredLines.has(i))) {
-                prevDepth = analyzeLine(i).blocks.length;
+                const analysis = analyzeLine(i);
+                if (analysis.isContinuation) continue;
+                prevDepth = analysis.blocks.length;
                 break;
             }
         }
@@ -52,15 +104,26 @@ export class ScopeFinder {
         let nextDepth = currentDepth;
         for (let i = activeLineNum + 1; i < lineCount; i++) {
             if (!this.isEmptyOrIgnored(doc.lineAt(i).text, ignoredLines.has(i))) {
-                nextDepth = analyzeLine(i).blocks.length;
+                const analysis = analyzeLine(i);
+                if (analysis.isContinuation) continue;
+                nextDepth = analysis.blocks.length;
                 break;
             }
         }
 
         // 4. Determine Highlight Level
         let highlightLevel = -1;
+        const keywords = options.branchKeywords;
+        const compound = options.compoundBranches === true && keywords !== undefined;
+        const isBranchLine = (line: number): boolean =>
+            keywords !== undefined && BranchKeywords.isBranchLine(doc.lineAt(line).text, keywords);
+        const opensBranch =
+            !isCurrentEmpty && nextDepth > currentDepth && isBranchLine(activeLineNum);
 
-        if (nextDepth > currentDepth) {
+        if (opensBranch) {
+            // `else:` closes one branch and opens the next, whatever the cursor column
+            highlightLevel = currentDepth;
+        } else if (nextDepth > currentDepth) {
             // Opening Logic: We are opening a new block.
             // Check if cursor is after the last non-whitespace character (transitioning into block)
             const contentEndIndex = lineText.trimEnd().length;
@@ -89,8 +152,34 @@ export class ScopeFinder {
         let blockStart = activeLineNum;
         let blockEnd = activeLineNum;
 
-        // Scan Upwards
-        for (let i = activeLineNum - 1; i >= 0; i--) {
+        // A compound scope runs through branch lines (and a `}` right above one) at its level
+        const nextSignificantLine = (line: number): number => {
+            for (let i = line + 1; i < lineCount; i++) {
+                if (this.isEmptyOrIgnored(doc.lineAt(i).text, ignoredLines.has(i))) continue;
+                if (!analyzeLine(i).isContinuation) return i;
+            }
+            return -1;
+        };
+        const opensBlock = (line: number): boolean => {
+            const next = nextSignificantLine(line);
+            return next !== -1 && analyzeLine(next).blocks.length > analyzeLine(line).blocks.length;
+        };
+        const continuesChain = (line: number, depth: number): boolean => {
+            if (!compound || depth !== highlightLevel) return false;
+            if (isBranchLine(line)) return opensBlock(line);
+            if (!CLOSER_LINE_REGEX.test(doc.lineAt(line).text)) return false;
+            const next = nextSignificantLine(line);
+            return (
+                next !== -1 &&
+                analyzeLine(next).blocks.length === depth &&
+                isBranchLine(next) &&
+                opensBlock(next)
+            );
+        };
+
+        // Scan Upwards (a new branch starts at its own line unless branches are compound)
+        const scanUp = !opensBranch || compound;
+        for (let i = activeLineNum - 1; scanUp && i >= 0; i--) {
             const isIgnored = ignoredLines.has(i);
             const text = doc.lineAt(i).text;
 
@@ -99,9 +188,12 @@ export class ScopeFinder {
                 continue;
             }
 
-            const depth = analyzeLine(i).blocks.length;
+            const analysis = analyzeLine(i);
+            if (analysis.isContinuation) continue;
+            const depth = analysis.blocks.length;
             if (depth < targetBlockCount) {
                 blockStart = i; // Guide connects to this parent line
+                if (continuesChain(i, depth)) continue;
                 break;
             }
             blockStart = i;
@@ -117,9 +209,15 @@ export class ScopeFinder {
                 continue;
             }
 
-            const depth = analyzeLine(i).blocks.length;
+            const analysis = analyzeLine(i);
+            if (analysis.isContinuation) {
+                if (i === lineCount - 1) blockEnd = i;
+                continue;
+            }
+            const depth = analysis.blocks.length;
             if (depth < targetBlockCount) {
                 blockEnd = i; // Guide connects to this closing line
+                if (continuesChain(i, depth)) continue;
                 break;
             }
             blockEnd = i;
@@ -128,6 +226,131 @@ export class ScopeFinder {
         return { highlightLevel, blockStart, blockEnd };
     }
 
+    /**
+     * Lists the blocks around a line from the innermost outwards. A line that opens a block
+     * starts with that block, so a cursor on `if x:` gets the `if` body first.
+     */
+    public static findEnclosingScopes(
+        doc: vscode.TextDocument,
+        line: number,
+        ignoredLines: Set<number>,
+        analyzeLine: LineAnalysisProvider,
+    ): EnclosingScope[] {
+        const lineCount = doc.lineCount;
+        const isSkipped = (i: number): boolean =>
+            this.isEmptyOrIgnored(doc.lineAt(i).text, ignoredLines.has(i));
+
+        // Blank lines and continuations belong to the statement above them
+        let anchor = line;
+        while (anchor > 0 && (isSkipped(anchor) || analyzeLine(anchor).isContinuation)) anchor--;
+        if (isSkipped(anchor)) return [];
+
+        let level = analyzeLine(anchor).blocks.length - 1;
+        let start = anchor;
+        let end = anchor;
+
+        for (let i = anchor + 1; i < lineCount; i++) {
+            if (isSkipped(i) || analyzeLine(i).isContinuation) continue;
+            if (analyzeLine(i).blocks.length > level + 1) {
+                level++;
+                start = i;
+                end = i;
+            }
+            break;
+        }
+
+        // Each level's body contains the one inside it, so the scans pick up where they stopped
+        const scopes: EnclosingScope[] = [];
+        for (; level >= 0; level--) {
+            let headerStart = -1;
+            for (let i = start - 1; i >= 0; i--) {
+                if (isSkipped(i)) continue;
+                const analysis = analyzeLine(i);
+                if (analysis.blocks.length > level) {
+                    if (!analysis.isContinuation) start = i;
+                    continue;
+                }
+                headerStart = i;
+                if (!analysis.isContinuation) break;
+            }
+
+            let closingLine = -1;
+            for (let i = end + 1; i < lineCount; i++) {
+                if (isSkipped(i)) continue;
+                const analysis = analyzeLine(i);
+                if (analysis.isContinuation || analysis.blocks.length > level) {
+                    end = i;
+                    continue;
+                }
+                if (CLOSER_LINE_REGEX.test(doc.lineAt(i).text)) closingLine = i;
+                break;
+            }
+
+            scopes.push({ level, headerStart, bodyStart: start, bodyEnd: end, closingLine });
+        }
+
+        return scopes;
+    }
+
+    /**
+     * Lines that open the blocks around `line`, from the innermost outwards. Only looks
+     * upwards, so it stays cheap enough to run on every cursor move.
+     */
+    public static findHeaderLines(
+        doc: vscode.TextDocument,
+        line: number,
+        ignoredLines: Set<number>,
+        analyzeLine: LineAnalysisProvider,
+    ): number[] {
+        const isSkipped = (i: number): boolean =>
+            this.isEmptyOrIgnored(doc.lineAt(i).text, ignoredLines.has(i));
+
+        let anchor = line;
+        while (anchor > 0 && (isSkipped(anchor) || analyzeLine(anchor).isContinuation)) anchor--;
+        if (isSkipped(anchor)) return [];
+
+        const headers: number[] = [];
+        let depth = analyzeLine(anchor).blocks.length;
+        for (let i = anchor - 1; i >= 0 && depth > 0; i--) {
+            if (isSkipped(i)) continue;
+            const analysis = analyzeLine(i);
+            if (analysis.isContinuation || analysis.blocks.length >= depth) continue;
+            headers.push(i);
+            depth = analysis.blocks.length;
+        }
+        return headers;
+    }
+
+    /**
+     * Finds the next (or previous) statement at the same depth within the same block, skipping
+     * deeper lines, continuations and lines of closing brackets. Returns -1 when a shallower
+     * line ends the block first.
+     */
+    public static findSibling(
+        doc: vscode.TextDocument,
+        line: number,
+        direction: 1 | -1,
+        ignoredLines: Set<number>,
+        analyzeLine: LineAnalysisProvider,
+    ): number {
+        const isSkipped = (i: number): boolean =>
+            this.isEmptyOrIgnored(doc.lineAt(i).text, ignoredLines.has(i));
+
+        let anchor = line;
+        while (anchor > 0 && (isSkipped(anchor) || analyzeLine(anchor).isContinuation)) anchor--;
+        if (isSkipped(anchor)) return -1;
+        const depth = analyzeLine(anchor).blocks.length;
+
+        for (let i = anchor + direction; i >= 0 && i < doc.lineCount; i += direction) {
+            if (isSkipped(i)) continue;
+            const analysis = analyzeLine(i);
+            if (analysis.isContinuation || analysis.blocks.length > depth) continue;
+            if (analysis.blocks.length < depth) return -1;
+            if (!CLOSER_LINE_REGEX.test(doc.lineAt(i).text)) return i;
+        }
+        return -1;
+    }
+
     private static isEmptyOrIgnored(text: string, isIgnored: boolean): boolean {
         return isIgnored || text.trim().length === 0;
     }
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import type { DocumentAnalysis } from './IndentSpectra';
+import { ScopeFinder } from './ScopeFinder';
+
+/**
+ * Each target has an `indentSpectra.goTo…` command and an `indentSpectra.selectTo…` command.
+ * - `ScopeStart` / `ScopeEnd`: first / last line of the block around the cursor; repeated
+ *   use moves on to the enclosing block
+ * - `ParentScope`: the line that opens the block around the cursor
+ * - `NextSibling` / `PreviousSibling`: the next / previous statement in the same block
+ */
+export const SCOPE_NAVIGATION_TARGETS = [
+    'ScopeStart',
+    'ScopeEnd',
+    'ParentScope',
+    'NextSibling',
+    'PreviousSibling',
+] as const;
+export type ScopeNavigationTarget = (typeof SCOPE_NAVIGATION_TARGETS)[number];
+
+type ScopeAnalysis = Pick<DocumentAnalysis, 'ignoredLines' | 'analyzeLine'>;
+
+export class ScopeNavigator {
+    /** Returns the line `target` leads to from `line`, or -1 when there is none. */
+    public static findTargetLine(
+        doc: vscode.TextDocument,
+        line: number,
+        analysis: ScopeAnalysis,
+        target: ScopeNavigationTarget,
+    ): number {
+        const { ignoredLines, analyzeLine } = analysis;
+
+        if (target === 'NextSibling' || target === 'PreviousSibling') {
+            const direction = target === 'NextSibling' ? 1 : -1;
+            return ScopeFinder.findSibling(doc, line, direction, ignoredLines, analyzeLine);
+        }
+
+        // A header line opens a block but belongs to the one around it
+        const scopes = ScopeFinder.findEnclosingScopes(doc, line, ignoredLines, analyzeLine).filter(
+            (scope) => scope.bodyStart <= line,
+        );
+
+        for (const scope of scopes) {
+            const targetLine =
+                target === 'ScopeStart'
+                    ? scope.bodyStart
+                    : target === 'ScopeEnd'
+                      ? scope.bodyEnd
+                      : scope.headerStart;
+            if (targetLine !== line) return targetLine;
+        }
+        return -1;
+    }
+
+    /**
+     * Moves the selection's active end to the target line, keeping the anchor when `select`
+     * is set. Selections without a target are returned unchanged.
+     */
+    public static move(
+        doc: vscode.TextDocument,
+        selection: vscode.Selection,
+        analysis: ScopeAnalysis,
+        target: ScopeNavigationTarget,
+        select: boolean,
+    ): vscode.Selection {
+        const line = this.findTargetLine(doc, selection.active.line, analysis, target);
+        if (line === -1) return selection;
+
+        // Selecting downwards takes the whole target line
+        const textLine = doc.lineAt(line);
+        const character =
+            select && line > selection.anchor.line
+                ? textLine.text.length
+                : textLine.firstNonWhitespaceCharacterIndex;
+        const active = new vscode.Position(line, character);
+
+        return new vscode.Selection(select ? selection.anchor : active, active);
+    }
+}
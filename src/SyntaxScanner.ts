@@ -0,0 +1,195 @@
+export interface LanguageSyntax {
+    lineComments: string[];
+    /** Opening and closing delimiters of block comments */
+    blockComments: [string, string][];
+    /** String delimiters that may span several lines */
+    multilineQuotes: string[];
+    /** Whether `{` opens a literal (continuation) rather than a code block */
+    bracesAreLiterals: boolean;
+    /** Whether `begin`/`end` delimit blocks, and whether they match regardless of case */
+    blockKeywords?: { ignoreCase: boolean };
+}
+
+/** A string or block comment left open at the end of a line */
+export interface OpenSpan {
+    close: string;
+    isComment: boolean;
+}
+
+export interface LineScanResult {
+    /** Span still open where the scan stopped, or null */
+    openSpan: OpenSpan | null;
+    /** Index of the last character outside comments that is not whitespace, or -1 */
+    lastCodeChar: number;
+}
+
+/** Brackets and block keywords, reported with the index of their first character */
+export type BlockToken = '(' | '[' | '{' | ')' | ']' | '}' | 'begin' | 'end';
+export type BlockTokenHandler = (token: BlockToken, index: number) => void;
+
+/** Opening token for every closing token */
+export const MATCHING_OPENER: Partial<Record<BlockToken, BlockToken>> = {
+    ')': '(',
+    ']': '[',
+    '}': '{',
+    end: 'begin',
+};
+
+const C_LIKE_SYNTAX: LanguageSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multilineQuotes: ['`'],
+    bracesAreLiterals: false,
+};
+
+const HASH_SYNTAX: LanguageSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    multilineQuotes: [],
+    bracesAreLiterals: false,
+};
+
+const PASCAL_SYNTAX: LanguageSyntax = {
+    lineComments: ['//'],
+    blockComments: [
+        ['{', '}'],
+        ['(*', '*)'],
+    ],
+    multilineQuotes: [],
+    bracesAreLiterals: false,
+    blockKeywords: { ignoreCase: true },
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+    python: {
+        lineComments: ['#'],
+        blockComments: [],
+        multilineQuotes: ['"""', "'''"],
+        bracesAreLiterals: true,
+    },
+    shellscript: HASH_SYNTAX,
+    ruby: HASH_SYNTAX,
+    perl: HASH_SYNTAX,
+    r: HASH_SYNTAX,
+    makefile: HASH_SYNTAX,
+    dockerfile: HASH_SYNTAX,
+    powershell: HASH_SYNTAX,
+    coffeescript: HASH_SYNTAX,
+    toml: HASH_SYNTAX,
+    yaml: HASH_SYNTAX,
+    lua: { ...HASH_SYNTAX, lineComments: ['--'] },
+    sql: { ...C_LIKE_SYNTAX, lineComments: ['--'], multilineQuotes: [] },
+    haskell: { ...HASH_SYNTAX, lineComments: ['--'] },
+    pascal: PASCAL_SYNTAX,
+    objectpascal: PASCAL_SYNTAX,
+    vhdl: { ...HASH_SYNTAX, lineComments: ['--'], blockKeywords: { ignoreCase: true } },
+    verilog: { ...C_LIKE_SYNTAX, multilineQuotes: [], blockKeywords: { ignoreCase: false } },
+    systemverilog: { ...C_LIKE_SYNTAX, multilineQuotes: [], blockKeywords: { ignoreCase: false } },
+};
+
+/** Languages whose brackets and quotes are prose, not syntax */
+const PROSE_LANGUAGES = new Set(['plaintext', 'markdown', 'latex', 'restructuredtext']);
+
+const BRACKETS = '([{)]}';
+const WORD_START_REGEX = /[A-Za-z_]/;
+const WORD_REGEX = /[\w$]*/y;
+
+export class SyntaxScanner {
+    /** Returns null for languages whose brackets and quotes carry no syntactic meaning. */
+    public static forLanguage(languageId: string): LanguageSyntax | null {
+        if (PROSE_LANGUAGES.has(languageId)) return null;
+        return LANGUAGE_SYNTAX[languageId] ?? C_LIKE_SYNTAX;
+    }
+
+    /**
+     * Scans one line up to `end`, skipping strings and comments, and reports every bracket
+     * and block keyword in code. `openSpan` is the span left open by the previous line.
+     */
+    public static scanLine(
+        syntax: LanguageSyntax,
+        text: string,
+        openSpan: OpenSpan | null,
+        onToken: BlockTokenHandler,
+        end: number = text.length,
+    ): LineScanResult {
+        let span = openSpan;
+        let lastCodeChar = -1;
+        let i = 0;
+
+        while (i < end) {
+            if (span !== null) {
+                const close = this.findClosingDelimiter(text, i, span.close, !span.isComment);
+                if (close === -1 || close >= end) {
+                    i = end;
+                    break;
+                }
+                if (!span.isComment) lastCodeChar = close + span.close.length - 1;
+                i = close + span.close.length;
+                span = null;
+                continue;
+            }
+
+            const char = text[i];
+
+            if (syntax.lineComments.some((token) => text.startsWith(token, i))) break;
+
+            const blockComment = syntax.blockComments.find(([open]) => text.startsWith(open, i));
+            if (blockComment) {
+                span = { close: blockComment[1], isComment: true };
+                i += blockComment[0].length;
+                continue;
+            }
+
+            const multilineQuote = syntax.multilineQuotes.find((quote) =>
+                text.startsWith(quote, i),
+            );
+            if (multilineQuote) {
+                span = { close: multilineQuote, isComment: false };
+                lastCodeChar = i;
+                i += multilineQuote.length;
+                continue;
+            }
+
+            if (char === '"' || char === "'") {
+                // Single-line strings end at their closing quote or at the end of the line
+                const close = this.findClosingDelimiter(text, i + 1, char, true);
+                lastCodeChar = close === -1 ? text.length - 1 : close;
+                i = close === -1 ? end : close + 1;
+                continue;
+            }
+
+            if (syntax.blockKeywords && WORD_START_REGEX.test(char)) {
+                WORD_REGEX.lastIndex = i + 1;
+                const wordEnd = i + 1 + (WORD_REGEX.exec(text)?.[0].length ?? 0);
+                const word = text.slice(i, wordEnd);
+                const keyword = syntax.blockKeywords.ignoreCase ? word.toLowerCase() : word;
+                if (keyword === 'begin' || keyword === 'end') onToken(keyword, i);
+                lastCodeChar = wordEnd - 1;
+                i = wordEnd;
+                continue;
+            }
+
+            if (BRACKETS.includes(char)) onToken(char as BlockToken, i);
+            if (char !== ' ' && char !== '\t') lastCodeChar = i;
+            i++;
+        }
+
+        return { openSpan: span, lastCodeChar };
+    }
+
+    private static findClosingDelimiter(
+        text: string,
+        from: number,
+        delimiter: string,
+        allowEscapes: boolean,
+    ): number {
+        for (let i = from; i < text.length; i++) {
+            if (allowEscapes && text[i] === '\\') {
+                i++;
+            } else if (text.startsWith(delimiter, i)) {
+                return i;
+            }
+        }
+        return -1;
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { IndentSpectra } from './IndentSpectra';
+import { SCOPE_NAVIGATION_TARGETS } from './ScopeNavigator';
 
 let indentSpectra: IndentSpectra | undefined;
 
@@ -42,18 +43,29 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             } else {
                 indentSpectra?.clearCache(event.document.uri);
             }
+            indentSpectra?.updateDiagnostics(event.document);
         }),
 
         vscode.workspace.onDidOpenTextDocument((doc) => {
             if (vscode.window.visibleTextEditors.some((editor) => editor.document === doc)) {
                 indentSpectra?.triggerUpdate();
             }
+            indentSpectra?.updateDiagnostics(doc);
+        }),
+
+        vscode.workspace.onWillSaveTextDocument((event) => {
+            indentSpectra?.handleWillSave(event);
         }),
 
         vscode.workspace.onDidCloseTextDocument((doc) => {
             indentSpectra?.clearCache(doc.uri);
         }),
 
+        // Diagnostics outlive closed documents, but not the files behind them
+        vscode.workspace.onDidDeleteFiles((event) => {
+            event.files.forEach((uri) => indentSpectra?.deleteDiagnostics(uri));
+        }),
+
         vscode.workspace.onDidChangeConfiguration((event) => {
             if (event.affectsConfiguration('indentSpectra')) {
                 indentSpectra?.reloadConfig();
@@ -64,6 +76,35 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             indentSpectra?.handleThemeChange();
         }),
 
+        vscode.commands.registerTextEditorCommand('indentSpectra.selectScope', (editor) =>
+            indentSpectra?.selectScope(editor, 'scope'),
+        ),
+
+        vscode.commands.registerTextEditorCommand('indentSpectra.selectParentScope', (editor) =>
+            indentSpectra?.selectScope(editor, 'parentScope'),
+        ),
+
+        vscode.commands.registerTextEditorCommand('indentSpectra.selectScopeBody', (editor) =>
+            indentSpectra?.selectScope(editor, 'body'),
+        ),
+
+        vscode.commands.registerTextEditorCommand('indentSpectra.showScopeAncestors', (editor) =>
+            indentSpectra?.showScopeAncestors(editor),
+        ),
+
+        vscode.commands.registerTextEditorCommand('indentSpectra.reindent', (editor) =>
+            indentSpectra?.reindent(editor),
+        ),
+
+        ...SCOPE_NAVIGATION_TARGETS.flatMap((target) => [
+            vscode.commands.registerTextEditorCommand(`indentSpectra.goTo${target}`, (editor) =>
+                indentSpectra?.navigateScope(editor, target, false),
+            ),
+            vscode.commands.registerTextEditorCommand(`indentSpectra.selectTo${target}`, (editor) =>
+                indentSpectra?.navigateScope(editor, target, true),
+            ),
+        ]),
+
         indentSpectra,
     );
 
@@ -1,6 +1,16 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { IndentSpectra } from '../../IndentSpectra';
+import type { AnalysisOptions } from '../../IndentationEngine';
+
+interface FixtureOptions {
+    tabSize?: number;
+    /** Defaults to the tab size */
+    indentSize?: number;
+    /** Lines analysed as ignored */
+    ignoredLines?: number[];
+    analysisOptions?: AnalysisOptions;
+}
 
 suite('Indent Spectra Comprehensive Test Suite', () => {
     let indentSpectra: IndentSpectra;
@@ -16,6 +26,36 @@ suite('Indent Spectra Comprehensive Test Suite', () => {
         }
     });
 
+    /** Opens `content` with an analysis that reads every line on its own, as providers get it. */
+    const openFixture = async (
+        content: string,
+        language: string,
+        {
+            tabSize = 4,
+            indentSize = tabSize,
+            ignoredLines = [],
+            analysisOptions,
+        }: FixtureOptions = {},
+    ) => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const doc = await vscode.workspace.openTextDocument({ content, language });
+        const ignored = new Set(ignoredLines);
+        const analysis = {
+            widths: { tabSize, indentSize },
+            ignoredLines: ignored,
+            analyzeLine: (line: number) =>
+                IndentationEngine.analyzeLine(
+                    doc.lineAt(line).text,
+                    tabSize,
+                    false,
+                    ignored.has(line),
+                    indentSize,
+                    analysisOptions,
+                ),
+        };
+        return { doc, analysis };
+    };
+
     // ============================================================================
     // BASIC EXTENSION TESTS
     // ============================================================================
@@ -114,6 +154,60 @@ suite('Indent Spectra Comprehensive Test Suite', () => {
         assert.ok(true, 'Pure space indentation should not be flagged as errors');
     });
 
+    test('Should flag space indentation that is off the indent grid', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+
+        const offGrid = IndentationEngine.analyzeLine('     five_spaces', 4, false, false);
+        assert.strictEqual(offGrid.isOffGrid, true, '5 spaces with indent 4 should be off-grid');
+        assert.strictEqual(offGrid.isError, false, 'Off-grid is a separate category from errors');
+        assert.strictEqual(offGrid.indentLength, 5, 'Indent length should cover all spaces');
+        assert.strictEqual(offGrid.blocks.length, 1, 'Off-grid lines keep their aligned levels');
+
+        const aligned = IndentationEngine.analyzeLine('        eight', 4, false, false);
+        assert.strictEqual(aligned.isOffGrid, false, 'Aligned spaces should not be off-grid');
+
+        const skipped = IndentationEngine.analyzeLine('     five_spaces', 4, true, false);
+        assert.strictEqual(skipped.isOffGrid, false, 'skipErrors should disable off-grid checks');
+
+        const blank = IndentationEngine.analyzeLine('     ', 4, false, false);
+        assert.strictEqual(blank.isOffGrid, false, 'Whitespace-only lines should not be off-grid');
+    });
+
+    test('Should mark non-standard whitespace inside indentation', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+
+        const nbsp = IndentationEngine.analyzeLine('  \u00a0 value: 1', 2, false, false);
+        assert.deepStrictEqual(nbsp.invalidWhitespace, [2], 'NBSP should be reported');
+        assert.strictEqual(nbsp.visualWidth, 4, 'NBSP should count as one column');
+        assert.deepStrictEqual(nbsp.blocks, [2, 4], 'Bands should continue past the NBSP');
+
+        const ideographic = IndentationEngine.analyzeLine('\u3000\u3000x', 4, false, false);
+        assert.strictEqual(ideographic.visualWidth, 4, 'Ideographic spaces are two columns');
+        assert.strictEqual(ideographic.indentLength, 2);
+
+        const zeroWidth = IndentationEngine.analyzeLine('\u200b    x', 4, false, false);
+        assert.deepStrictEqual(zeroWidth.invalidWhitespace, [0], 'Leading zero-width space');
+        assert.strictEqual(zeroWidth.visualWidth, 4, 'Zero-width characters add no width');
+    });
+
+    test('Should report trailing whitespace and whitespace-only lines when enabled', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const options = { trailingWhitespace: true, blankLineWhitespace: true };
+
+        const trailing = IndentationEngine.analyzeLine('    foo  \t', 4, false, false, 4, options);
+        assert.strictEqual(trailing.trailingStart, 7, 'Trailing whitespace starts after content');
+
+        const unindented = IndentationEngine.analyzeLine('foo ', 4, false, false, 4, options);
+        assert.strictEqual(unindented.trailingStart, 3, 'Unindented lines are checked too');
+
+        const blank = IndentationEngine.analyzeLine('    ', 4, false, false, 4, options);
+        assert.strictEqual(blank.isBlankWithWhitespace, true);
+        assert.strictEqual(blank.trailingStart, -1, 'Blank lines are their own category');
+
+        const disabled = IndentationEngine.analyzeLine('    foo  ', 4, false, false);
+        assert.strictEqual(disabled.trailingStart, -1, 'Categories are opt-in');
+    });
+
     test('Should not flag errors for multi-line comments in ignored languages', async () => {
         indentSpectra = new IndentSpectra();
 
@@ -352,6 +446,20 @@ suite('Indent Spectra Comprehensive Test Suite', () => {
         await config.update('mixColor', undefined, vscode.ConfigurationTarget.Global);
     });
 
+    test('Should update off-grid color', async () => {
+        indentSpectra = new IndentSpectra();
+        const config = vscode.workspace.getConfiguration('indentSpectra');
+
+        await config.update('offGridColor', '#ff8800', vscode.ConfigurationTarget.Global);
+
+        indentSpectra.reloadConfig();
+
+        const offGridColor = vscode.workspace.getConfiguration('indentSpectra').get('offGridColor');
+        assert.strictEqual(offGridColor, '#ff8800', 'Off-grid color should be updated');
+
+        await config.update('offGridColor', undefined, vscode.ConfigurationTarget.Global);
+    });
+
     // ============================================================================
     // IGNORE PATTERNS
     // ============================================================================
@@ -538,6 +646,153 @@ suite('Indent Spectra Comprehensive Test Suite', () => {
         assert.ok(true, 'Tab size detection should work');
     });
 
+    test('Should detect 2-space indentation from document content', async () => {
+        const { IndentationDetector } = await import('../../IndentationDetector');
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: 'root:\n  child:\n    leaf: 1\n  other: 2\nnext:\n  value: 3',
+            language: 'yaml',
+        });
+
+        const detected = IndentationDetector.detect(doc);
+        assert.ok(detected, 'Indentation should be detected');
+        assert.strictEqual(detected.useTabs, false, 'Spaces should be detected');
+        assert.strictEqual(detected.indentSize, 2, 'Indent unit should be 2');
+        assert.strictEqual(detected.confidence, 1, 'Consistent document should be fully confident');
+    });
+
+    test('Should detect tab indentation and ignore unindented documents', async () => {
+        const { IndentationDetector } = await import('../../IndentationDetector');
+
+        const tabDoc = await vscode.workspace.openTextDocument({
+            content: 'root\n\tlevel 1\n\t\tlevel 2\n\tlevel 1',
+            language: 'javascript',
+        });
+        assert.strictEqual(IndentationDetector.detect(tabDoc)?.useTabs, true);
+
+        const flatDoc = await vscode.workspace.openTextDocument({
+            content: 'a\nb\nc',
+            language: 'javascript',
+        });
+        assert.strictEqual(IndentationDetector.detect(flatDoc), null);
+    });
+
+    test('Should use detected indentation when configured', async () => {
+        indentSpectra = new IndentSpectra();
+        const config = vscode.workspace.getConfiguration('indentSpectra');
+        await config.update('indentSource', 'detected', vscode.ConfigurationTarget.Global);
+        indentSpectra.reloadConfig();
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: 'root:\n  child:\n    leaf: 1',
+            language: 'yaml',
+        });
+        await vscode.window.showTextDocument(doc);
+
+        indentSpectra.triggerUpdate(undefined, true);
+        assert.ok(true, 'Detected indentation should be applied without crashing');
+
+        await config.update('indentSource', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    // ============================================================================
+    // EDITORCONFIG
+    // ============================================================================
+
+    test('Should parse .editorconfig sections and root flag', async () => {
+        const { EditorConfigResolver } = await import('../../EditorConfigResolver');
+
+        const file = EditorConfigResolver.parse(
+            [
+                '# top-most file',
+                'root = true',
+                '',
+                '[*]',
+                'indent_style = space',
+                'indent_size = 4',
+                '',
+                '[*.{yml,yaml}]',
+                'indent_size = 2',
+                '',
+                '[Makefile]',
+                'indent_style = tab',
+            ].join('\n'),
+        );
+
+        assert.strictEqual(file.isRoot, true, 'Root flag should be read from the preamble');
+        assert.strictEqual(file.sections.length, 3, 'All sections should be parsed');
+        assert.strictEqual(file.sections[1].properties.get('indent_size'), '2');
+    });
+
+    test('Should match .editorconfig globs against relative paths', async () => {
+        const { EditorConfigResolver } = await import('../../EditorConfigResolver');
+        const matches = (glob: string, path: string): boolean =>
+            EditorConfigResolver.globToRegExp(glob).test(path);
+
+        assert.ok(matches('*.py', 'src/pkg/module.py'), 'Slash-less globs match at any depth');
+        assert.ok(!matches('/*.py', 'src/module.py'), 'Leading slash anchors to the directory');
+        assert.ok(matches('*.{yml,yaml}', 'config.yaml'), 'Brace alternatives should match');
+        assert.ok(matches('lib/**.js', 'lib/a/b/c.js'), 'Double star crosses directories');
+        assert.ok(!matches('lib/*.js', 'lib/a/c.js'), 'Single star stays in one directory');
+        assert.ok(matches('**/x.py', 'x.py'), 'A leading **/ also matches no directory');
+        assert.ok(matches('src/**/x.py', 'src/a/b/x.py'), 'A **/ segment crosses directories');
+        assert.ok(!matches('src/**/x.py', 'srcx.py'), 'A **/ segment keeps its slash');
+        assert.ok(matches('file{1..3}.txt', 'file2.txt'), 'Numeric ranges should match');
+        assert.ok(!matches('file{1..3}.txt', 'file4.txt'), 'Numbers outside the range fail');
+        assert.ok(matches('[!a]*.md', 'readme.md'), 'Negated character classes should match');
+    });
+
+    // ============================================================================
+    // MODELINES
+    // ============================================================================
+
+    test('Should parse vim, emacs and kate modelines', async () => {
+        const { ModelineParser } = await import('../../ModelineParser');
+
+        assert.deepStrictEqual(ModelineParser.parseLine('/* vim: set ts=8 sw=4 noet: */'), {
+            tabSize: 8,
+            indentSize: 4,
+            useTabs: true,
+        });
+        assert.deepStrictEqual(ModelineParser.parseLine('# vim: ts=2:sw=0:et'), {
+            tabSize: 2,
+            indentSize: 2,
+            useTabs: false,
+        });
+        assert.deepStrictEqual(
+            ModelineParser.parseLine('// -*- mode: c; tab-width: 4; indent-tabs-mode: nil -*-'),
+            { tabSize: 4, useTabs: false },
+        );
+        assert.deepStrictEqual(
+            ModelineParser.parseLine('// kate: tab-width 8; indent-width 4; replace-tabs off;'),
+            { tabSize: 8, indentSize: 4, useTabs: true },
+        );
+        assert.deepStrictEqual(ModelineParser.parseLine('const x = 1;'), {});
+        assert.deepStrictEqual(
+            ModelineParser.parseLine('int x = 1; // for ex:ts=2'),
+            {},
+            'A plain `ex:` in a comment is not a modeline',
+        );
+        assert.deepStrictEqual(ModelineParser.parseLine('# ex: set ts=2:'), { tabSize: 2 });
+    });
+
+    test('Should find modelines only in the first and last lines', async () => {
+        const { ModelineParser } = await import('../../ModelineParser');
+
+        const body = new Array(20).fill('code();');
+        const tail = await vscode.workspace.openTextDocument({
+            content: [...body, '/* vim: set sw=2: */'].join('\n'),
+            language: 'c',
+        });
+        assert.deepStrictEqual(ModelineParser.scan(tail), { indentSize: 2 });
+
+        const middle = await vscode.workspace.openTextDocument({
+            content: [...body.slice(0, 10), '/* vim: set sw=2: */', ...body.slice(10)].join('\n'),
+            language: 'c',
+        });
+        assert.strictEqual(ModelineParser.scan(middle), null);
+    });
+
     // ============================================================================
     // LIFECYCLE & CLEANUP
     // ============================================================================
@@ -612,6 +867,827 @@ suite('Indent Spectra Comprehensive Test Suite', () => {
         assert.ok(true, 'Tab alignment errors should still be detected');
     });
 
+    test('Should place blocks on indent size when tabs are wider than indents', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+
+        // Emacs style: 8-column tabs, 4-column indentation steps
+        const oneTab = IndentationEngine.analyzeLine('\tcode', 8, false, false, 4);
+        assert.strictEqual(oneTab.visualWidth, 8, 'Tab should expand to 8 columns');
+        assert.strictEqual(oneTab.blocks.length, 2, 'One 8-column tab spans two levels');
+        assert.strictEqual(oneTab.isError, false, 'Wide tab should not be an error');
+
+        const tabAndIndent = IndentationEngine.analyzeLine('\t    code', 8, false, false, 4);
+        assert.strictEqual(tabAndIndent.visualWidth, 12, 'Visual width should be 12');
+        assert.deepStrictEqual(tabAndIndent.blocks, [1, 1, 5], 'Third level should end at col 5');
+        assert.strictEqual(tabAndIndent.isError, false, 'Tab plus one indent should be aligned');
+        assert.strictEqual(tabAndIndent.isMixed, false, 'Spaces for an odd level are not mixed');
+
+        const misaligned = IndentationEngine.analyzeLine('\t  code', 8, false, false, 4);
+        assert.strictEqual(misaligned.isError, true, 'Tab plus 2 spaces should be off the grid');
+        assert.strictEqual(misaligned.isMixed, true, 'Spaces short of a level are still mixed');
+    });
+
+    test('Should accept tab indentation followed by alignment spaces with smart tabs', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+
+        const smart = IndentationEngine.analyzeLine('\t\t    foo,', 4, false, false, 4, {
+            smartTabs: true,
+        });
+        assert.strictEqual(smart.isMixed, false, 'Tabs then spaces should not be mixed');
+        assert.strictEqual(smart.isError, false, 'Tabs then spaces should not be an error');
+        assert.deepStrictEqual(smart.blocks, [1, 2], 'Only the tabs should produce levels');
+        assert.strictEqual(smart.alignmentStart, 2, 'Alignment should start after the tabs');
+        assert.strictEqual(smart.indentLength, 6, 'Indentation should include alignment');
+
+        const spaceFirst = IndentationEngine.analyzeLine('  \tfoo', 4, false, false, 4, {
+            smartTabs: true,
+        });
+        assert.strictEqual(spaceFirst.isMixed, true, 'Spaces before a tab are still mixed');
+        assert.strictEqual(spaceFirst.alignmentStart, -1, 'Mixed lines have no alignment');
+
+        const strict = IndentationEngine.analyzeLine('\t\t    foo,', 4, false, false);
+        assert.strictEqual(strict.isMixed, true, 'Without smart tabs the line is mixed');
+    });
+
+    test('Should flag indentation that breaks a language policy', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const { LanguageRules } = await import('../../LanguageRules');
+
+        const rules = LanguageRules.resolve({ python: null, haskell: { widths: [2, 4] } });
+        assert.ok(!rules.has('python'), 'Null entries should drop built-in rules');
+
+        const yaml = rules.get('yaml');
+        const tabbedYaml = IndentationEngine.analyzeLine('\tkey: 1', 4, false, false, 4, {
+            policy: yaml,
+        });
+        assert.strictEqual(tabbedYaml.isError, false, 'Aligned tab is not an indent error');
+        assert.strictEqual(tabbedYaml.isPolicyViolation, true, 'YAML forbids tabs');
+
+        const makefile = rules.get('makefile');
+        const spacedRecipe = IndentationEngine.analyzeLine('    $(CC) -o app', 4, false, false, 4, {
+            policy: makefile,
+        });
+        assert.strictEqual(spacedRecipe.isPolicyViolation, true, 'Makefile requires tabs');
+
+        const haskell = rules.get('haskell');
+        const threeSpaces = IndentationEngine.analyzeLine('   x', 3, false, false, 3, {
+            policy: haskell,
+        });
+        assert.strictEqual(threeSpaces.isPolicyViolation, true, 'Width 3 is not allowed');
+    });
+
+    test('Should only apply the Makefile tab rule to recipe lines', async () => {
+        const { LanguageRules } = await import('../../LanguageRules');
+
+        const lines = [
+            'SRCS = a.c \\',
+            '    b.c',
+            'ifeq ($(DEBUG),1)',
+            '    CFLAGS += -g',
+            'endif',
+            'app: $(SRCS)',
+            '\t$(CC) -o app \\',
+            '        $(SRCS)',
+            '',
+            '    # comment',
+            '    strip app',
+        ];
+        const getText = (line: number) => lines[line];
+        const recipeLines = lines
+            .map((_, line) => line)
+            .filter((line) => LanguageRules.isRecipeLine(line, getText));
+
+        assert.deepStrictEqual(recipeLines, [6, 8, 9, 10]);
+    });
+
+    test('Should continue guides through blank lines inside a block', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const { DecorationGenerator } = await import('../../DecorationGenerator');
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: 'function f() {\n    if (x) {\n        a();\n\n  \n        b();\n    }\n}',
+            language: 'javascript',
+        });
+        const analyzeLine = (line: number) =>
+            IndentationEngine.analyzeLine(doc.lineAt(line).text, 4, false, false);
+        const tokenSource = new vscode.CancellationTokenSource();
+
+        const result = await DecorationGenerator.generate(
+            doc,
+            [],
+            4,
+            [{ highlightLevel: 1, blockStart: 1, blockEnd: 6 }],
+            { indentSize: 4, blankLines: true },
+            analyzeLine,
+            () => null,
+            tokenSource.token,
+        );
+        tokenSource.dispose();
+
+        assert.ok(result, 'Generation should not be cancelled');
+        const guides = result.virtualGuides.map(({ line, firstLevel, depth, activeLevels }) => ({
+            line,
+            firstLevel,
+            depth,
+            activeLevels,
+        }));
+        assert.deepStrictEqual(guides, [
+            { line: 3, firstLevel: 0, depth: 2, activeLevels: [1] },
+            { line: 4, firstLevel: 0, depth: 2, activeLevels: [1] },
+        ]);
+    });
+
+    test('Should draw each virtual guide level on its own attachment', async () => {
+        const { DecorationFactory } = await import('../../DecorationFactory');
+        const { IndicatorStyle } = await import('../../ConfigurationManager');
+
+        const guide = {
+            line: 3,
+            character: 2,
+            startColumn: 2,
+            firstLevel: 0,
+            depth: 2,
+            activeLevels: [1],
+            indentSize: 4,
+        };
+        const palette = {
+            colors: ['red', 'green'],
+            activeColors: ['darkred', 'darkgreen'],
+            indicatorStyle: IndicatorStyle.Classic,
+            lightIndicatorWidth: 1,
+        };
+        const attachments = (style: typeof palette.indicatorStyle) =>
+            DecorationFactory.createVirtualGuideRenderOptions(guide, {
+                ...palette,
+                indicatorStyle: style,
+            }).map((options) => options.before);
+
+        assert.deepStrictEqual(attachments(IndicatorStyle.Classic), [
+            {
+                contentText: '\u200b',
+                width: '2ch',
+                backgroundColor: 'red',
+                margin: '0 calc(-0ch - 2ch) 0 0ch',
+            },
+            {
+                contentText: '\u200b',
+                width: '4ch',
+                backgroundColor: 'darkgreen',
+                margin: '0 calc(-2ch - 4ch) 0 2ch',
+            },
+        ]);
+        assert.deepStrictEqual(
+            attachments(IndicatorStyle.Light).map((before) => before?.width),
+            ['2px'],
+            'Light guides skip levels that start on real whitespace',
+        );
+    });
+
+    test('Should scope else branches as a new branch or a compound chain', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const { ScopeFinder } = await import('../../ScopeFinder');
+        const { BranchKeywords } = await import('../../BranchKeywords');
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: 'if (x) {\n    a();\n}\nelse {\n    b();\n}\nc();',
+            language: 'c',
+        });
+        const analyzeLine = (line: number) =>
+            IndentationEngine.analyzeLine(doc.lineAt(line).text, 4, false, false);
+        const branchKeywords = BranchKeywords.resolve({}).get('c');
+        const findScope = (line: number, character: number, compoundBranches: boolean) =>
+            ScopeFinder.findScope(doc, line, character, doc.lineCount, new Set(), analyzeLine, {
+                branchKeywords,
+                compoundBranches,
+            });
+
+        // On `else {` the column no longer matters: the branch it opens is highlighted
+        assert.deepStrictEqual(findScope(3, 0, false), {
+            highlightLevel: 0,
+            blockStart: 3,
+            blockEnd: 5,
+        });
+        assert.deepStrictEqual(findScope(3, 0, true), {
+            highlightLevel: 0,
+            blockStart: 0,
+            blockEnd: 5,
+        });
+        // Inside the `if` body the compound scope runs on through `}` and `else {`
+        assert.deepStrictEqual(findScope(1, 4, true), {
+            highlightLevel: 0,
+            blockStart: 0,
+            blockEnd: 5,
+        });
+    });
+
+    test('Should mark the header, closing line and opener of the active scope', async () => {
+        const { DecorationGenerator } = await import('../../DecorationGenerator');
+
+        const { doc, analysis } = await openFixture(
+            'function f() {\n    if (x) {\n        a();\n    }\n}',
+            'javascript',
+        );
+        const tokenSource = new vscode.CancellationTokenSource();
+
+        const result = await DecorationGenerator.generate(
+            doc,
+            [],
+            4,
+            [{ highlightLevel: 1, blockStart: 1, blockEnd: 3 }],
+            { indentSize: 4, blankLines: true },
+            analysis.analyzeLine,
+            () => null,
+            tokenSource.token,
+        );
+        tokenSource.dispose();
+
+        assert.ok(result, 'Generation should not be cancelled');
+        assert.deepStrictEqual(
+            result.scopeHeader.map((range) => range.start.line),
+            [1],
+        );
+        assert.deepStrictEqual(
+            result.scopeClosing.map((range) => range.start.line),
+            [3],
+        );
+        assert.deepStrictEqual(
+            result.scopeOpener.map((range) => [range.start.character, range.end.character]),
+            [[11, 12]],
+            'The trailing brace is the opening token',
+        );
+    });
+
+    test('Should only treat block keywords as closing lines', async () => {
+        const { DecorationGenerator } = await import('../../DecorationGenerator');
+
+        const closingLines = async (closer: string) => {
+            const { doc, analysis } = await openFixture(`while x do\n    a()\n${closer}`, 'lua');
+            const tokenSource = new vscode.CancellationTokenSource();
+            const result = await DecorationGenerator.generate(
+                doc,
+                [],
+                4,
+                [{ highlightLevel: 0, blockStart: 0, blockEnd: 2 }],
+                { indentSize: 4, blankLines: true },
+                analysis.analyzeLine,
+                () => null,
+                tokenSource.token,
+            );
+            tokenSource.dispose();
+            return result?.scopeClosing.map((range) => range.start.line);
+        };
+
+        assert.deepStrictEqual(await closingLines('end'), [2]);
+        assert.deepStrictEqual(await closingLines('endTime()'), [], 'Identifiers are not closers');
+    });
+
+    test('Should merge the scopes of several cursors', async () => {
+        const { ScopeFinder } = await import('../../ScopeFinder');
+
+        const merged = ScopeFinder.mergeScopes([
+            { highlightLevel: 1, blockStart: 10, blockEnd: 14 },
+            { highlightLevel: -1, blockStart: -1, blockEnd: -1 },
+            { highlightLevel: 0, blockStart: 0, blockEnd: 20 },
+            { highlightLevel: 1, blockStart: 2, blockEnd: 6 },
+            { highlightLevel: 1, blockStart: 4, blockEnd: 9 },
+        ]);
+
+        assert.deepStrictEqual(merged, [
+            { highlightLevel: 0, blockStart: 0, blockEnd: 20 },
+            { highlightLevel: 1, blockStart: 2, blockEnd: 9 },
+            { highlightLevel: 1, blockStart: 10, blockEnd: 14 },
+        ]);
+
+        // Python siblings `def a` and `def b` share line 3 as end and header
+        const siblings = ScopeFinder.mergeScopes([
+            { highlightLevel: 1, blockStart: 1, blockEnd: 3 },
+            { highlightLevel: 1, blockStart: 3, blockEnd: 4 },
+            { highlightLevel: 1, blockStart: 3, blockEnd: 4 },
+        ]);
+        assert.deepStrictEqual(siblings, [
+            { highlightLevel: 1, blockStart: 1, blockEnd: 3 },
+            { highlightLevel: 1, blockStart: 3, blockEnd: 4 },
+        ]);
+    });
+
+    test('Should flag dedents to unknown levels and multi-level indents', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const { IndentStructureAnalyzer } = await import('../../IndentStructureAnalyzer');
+
+        const lines = [
+            'if a:',
+            '    if b:',
+            '        x = 1',
+            '      y = 2',
+            '    z = 3',
+            '            w = 4',
+        ];
+        const analyzeLine = (line: number) =>
+            IndentationEngine.analyzeLine(lines[line], 4, false, false);
+        const state = IndentStructureAnalyzer.createState();
+
+        IndentStructureAnalyzer.analyzeThrough(
+            state,
+            lines.length - 1,
+            4,
+            () => false,
+            analyzeLine,
+        );
+        assert.deepStrictEqual(state.issues, [null, null, null, 'dedent', null, 'jump']);
+
+        // Resuming after an edit recovers the stack by looking back
+        lines[3] = '        y = 2';
+        IndentStructureAnalyzer.invalidateFrom(state, 3);
+        IndentStructureAnalyzer.analyzeThrough(
+            state,
+            lines.length - 1,
+            4,
+            () => false,
+            analyzeLine,
+        );
+        assert.deepStrictEqual(state.issues, [null, null, null, null, null, 'jump']);
+    });
+
+    test('Should render hanging indents with the levels of their statement', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const { ContinuationTracker } = await import('../../ContinuationTracker');
+
+        const lines = [
+            'def f():',
+            '    x = foo(a,',
+            '             b)',
+            '    s = "(" \\',
+            '      "tail"',
+            '    return x  # (',
+            '    y = 1',
+        ];
+        const state = ContinuationTracker.createState('python');
+        const parents = lines.map((_, i) =>
+            ContinuationTracker.parentLineOf(state, i, (line) => lines[line]),
+        );
+        assert.deepStrictEqual(parents, [-1, -1, 1, -1, 3, -1, -1]);
+
+        const hanging = IndentationEngine.analyzeLine(lines[2], 4, false, false);
+        assert.strictEqual(hanging.isOffGrid, true, 'Hanging indents are off-grid on their own');
+
+        const parent = IndentationEngine.analyzeLine(lines[1], 4, false, false);
+        const continuation = IndentationEngine.asContinuation(hanging, parent);
+        assert.strictEqual(continuation.isContinuation, true);
+        assert.strictEqual(continuation.isOffGrid, false, 'Continuations are exempt from the grid');
+        assert.deepStrictEqual(continuation.blocks, [4], 'Levels should match the statement');
+
+        const prose = ContinuationTracker.createState('plaintext');
+        assert.strictEqual(
+            ContinuationTracker.parentLineOf(prose, 2, (line) => lines[line]),
+            -1,
+        );
+    });
+
+    test('Should indent array elements by level in brace languages', async () => {
+        const { ContinuationTracker } = await import('../../ContinuationTracker');
+
+        const lines = [
+            'const items = [',
+            '    {',
+            '        a: foo(1,',
+            '               2),',
+            '    },',
+            '    2,',
+            '];',
+        ];
+        const state = ContinuationTracker.createState('javascript');
+        const parents = lines.map((_, i) =>
+            ContinuationTracker.parentLineOf(state, i, (line) => lines[line]),
+        );
+        assert.deepStrictEqual(parents, [-1, -1, -1, 2, -1, -1, -1]);
+
+        const json = ['[', '    {', '        "a": 1', '    },', '    2', ']'];
+        const jsonState = ContinuationTracker.createState('json');
+        assert.deepStrictEqual(
+            json.map((_, i) =>
+                ContinuationTracker.parentLineOf(jsonState, i, (line) => json[line]),
+            ),
+            [-1, -1, -1, -1, -1, -1],
+        );
+    });
+
+    test('Should recognise the lines of a JSDoc block as comment lines', async () => {
+        const { IndentationEngine } = await import('../../IndentationEngine');
+        const { ContinuationTracker } = await import('../../ContinuationTracker');
+
+        const lines = ['class A {', '    /**', '     * Docs', '     */', '    f() {}', '}'];
+        const state = ContinuationTracker.createState('typescript');
+        const inComment = lines.map((_, i) =>
+            ContinuationTracker.startsInComment(state, i, (line) => lines[line]),
+        );
+        assert.deepStrictEqual(inComment, [false, false, true, true, false, false]);
+
+        const docLine = IndentationEngine.analyzeLine(lines[2], 4, false, false);
+        assert.strictEqual(docLine.isOffGrid, true, 'Comment lines are off-grid on their own');
+    });
+
+    // ============================================================================
+    // FOLDING
+    // ============================================================================
+
+    test('Should fold by analysed levels and fold ignored blocks as comments', async () => {
+        const { IndentFoldingProvider } = await import('../../IndentFoldingProvider');
+
+        const content = [
+            'def f():',
+            '\tif x:',
+            '\t    a()',
+            '',
+            '\tb()',
+            "'''",
+            '    doc',
+            "'''",
+            'g()',
+        ].join('\n');
+        const { doc, analysis } = await openFixture(content, 'python', { ignoredLines: [5, 6, 7] });
+
+        const ranges = IndentFoldingProvider.computeRanges(doc, analysis);
+
+        // The tab-plus-spaces line is one level below `if`; the blank line does not end `f`
+        assert.deepStrictEqual(
+            ranges.map(({ start, end, kind }) => ({ start, end, kind })),
+            [
+                { start: 0, end: 4, kind: undefined },
+                { start: 1, end: 2, kind: undefined },
+                { start: 5, end: 7, kind: vscode.FoldingRangeKind.Comment },
+            ],
+        );
+    });
+
+    // ============================================================================
+    // SCOPE SELECTION
+    // ============================================================================
+
+    test('Should expand selections through indentation scopes', async () => {
+        const { IndentSelectionRangeProvider } = await import('../../IndentSelectionRangeProvider');
+
+        const content = 'class A:\n    def f(self):\n        a()\n        b()\n\n    x = 1\ny = 2';
+        const { doc, analysis } = await openFixture(content, 'python');
+
+        const chain: number[][] = [];
+        let range = IndentSelectionRangeProvider.computeSelectionRange(
+            doc,
+            new vscode.Position(2, 8),
+            analysis,
+        );
+        for (; range; range = range.parent) {
+            chain.push([range.range.start.line, range.range.end.line]);
+        }
+        // `f` body, `f` with its header, then the `A` body (which already includes `f`'s
+        // header), then `A` with its header
+        assert.deepStrictEqual(chain, [
+            [2, 3],
+            [1, 3],
+            [1, 5],
+            [0, 5],
+        ]);
+
+        const parent = IndentSelectionRangeProvider.computeScopeSelection(
+            doc,
+            new vscode.Selection(1, 0, 3, 11),
+            analysis,
+            'parentScope',
+        );
+        assert.deepStrictEqual([parent?.start.line, parent?.end.line], [0, 5]);
+    });
+
+    test('Should navigate between scopes and siblings', async () => {
+        const { ScopeNavigator } = await import('../../ScopeNavigator');
+
+        const content = [
+            'def f():',
+            '    a()',
+            '',
+            '    if x:',
+            '        b()',
+            '        c()',
+            '    d()',
+            'e()',
+        ].join('\n');
+        const { doc, analysis } = await openFixture(content, 'python');
+        const target = (line: number, name: Parameters<typeof ScopeNavigator.findTargetLine>[3]) =>
+            ScopeNavigator.findTargetLine(doc, line, analysis, name);
+
+        assert.strictEqual(target(1, 'NextSibling'), 3, 'Blank lines are skipped');
+        assert.strictEqual(target(3, 'NextSibling'), 6, 'Deeper lines are skipped');
+        assert.strictEqual(target(6, 'NextSibling'), -1, 'The block ends first');
+        assert.strictEqual(target(6, 'PreviousSibling'), 3);
+        assert.strictEqual(target(5, 'ScopeStart'), 4);
+        assert.strictEqual(target(4, 'ScopeStart'), 1, 'Repeated use climbs outwards');
+        assert.strictEqual(target(4, 'ScopeEnd'), 5);
+        assert.strictEqual(target(4, 'ParentScope'), 3);
+
+        const selection = ScopeNavigator.move(
+            doc,
+            new vscode.Selection(4, 8, 4, 8),
+            analysis,
+            'ScopeEnd',
+            true,
+        );
+        assert.deepStrictEqual(
+            [selection.anchor.line, selection.anchor.character, selection.active.line],
+            [4, 8, 5],
+        );
+    });
+
+    test('Should list the headers of the enclosing scopes', async () => {
+        const { ScopeBreadcrumb } = await import('../../ScopeBreadcrumb');
+
+        const content = [
+            'class Foo:',
+            '    def bar(self,',
+            '            other):',
+            '        for x in y:',
+            '',
+            '            print(x)',
+            '    def baz(self):',
+            '        pass',
+        ].join('\n');
+        const { doc, analysis: fixture } = await openFixture(content, 'python');
+        const analysis = {
+            ...fixture,
+            analyzeLine: (line: number) => {
+                const analysis = fixture.analyzeLine(line);
+                // Line 2 continues the `def` statement
+                return line === 2 ? { ...analysis, blocks: [4], isContinuation: true } : analysis;
+            },
+        };
+
+        const headers = ScopeBreadcrumb.collectHeaders(doc, 5, analysis);
+        assert.strictEqual(
+            ScopeBreadcrumb.format(headers),
+            'class Foo › def bar(self, › for x in y',
+        );
+        assert.deepStrictEqual(
+            headers.map((header) => header.line),
+            [0, 1, 3],
+        );
+        assert.deepStrictEqual(
+            ScopeBreadcrumb.collectHeaders(doc, 7, analysis).map((header) => header.line),
+            [0, 6],
+        );
+    });
+
+    test('Should report errors, mixed and off-grid lines as diagnostics', async () => {
+        const { IndentDiagnostics } = await import('../../IndentDiagnostics');
+
+        const { doc, analysis } = await openFixture(
+            'root\n\t  mixed\n      offGrid\n    fine',
+            'plaintext',
+        );
+
+        const diagnostics = IndentDiagnostics.computeDiagnostics(
+            doc,
+            analysis,
+            IndentDiagnostics.resolveSeverities({ offGrid: 'error', mixed: 'off' }),
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map((d) => [d.range.start.line, d.code, d.severity]),
+            [
+                [1, 'indentation-error', vscode.DiagnosticSeverity.Warning],
+                [2, 'off-grid-indentation', vscode.DiagnosticSeverity.Error],
+            ],
+        );
+        assert.strictEqual(
+            diagnostics[0].message,
+            'Indentation of 1 tab and 2 spaces (width 6) is not a multiple of 4',
+        );
+        assert.strictEqual(
+            diagnostics[1].message,
+            'Indentation of 6 spaces falls between levels of 4',
+        );
+    });
+
+    test('Should offer indentation quick fixes for flagged lines', async () => {
+        const { IndentCodeActionProvider } = await import('../../IndentCodeActionProvider');
+
+        const { doc, analysis } = await openFixture('if x:\n\t  a\n  \tb\n    c', 'python');
+        const editsOf = (action: vscode.CodeAction) =>
+            action.edit!.get(doc.uri).map((edit) => [edit.range.start.line, edit.newText]);
+
+        const actions = IndentCodeActionProvider.computeActions(
+            doc,
+            new vscode.Range(1, 0, 1, 0),
+            analysis,
+        );
+        assert.deepStrictEqual(
+            actions.map((action) => action.title),
+            [
+                'Convert indentation to tabs',
+                'Convert indentation to spaces',
+                'Snap to nearest indent level',
+                "Match previous line's indentation",
+                'Convert indentation to tabs in document',
+                'Convert indentation to spaces in document',
+                'Snap to nearest indent level in document',
+            ],
+        );
+        assert.deepStrictEqual(editsOf(actions[1]), [[1, '      ']]);
+        assert.deepStrictEqual(editsOf(actions[2]), [[1, '\t\t']]);
+        assert.strictEqual(actions[6].edit, undefined, 'Fix-all edits are built on resolve');
+        new IndentCodeActionProvider(async () => null).resolveCodeAction(actions[6]);
+        assert.deepStrictEqual(editsOf(actions[6]), [
+            [1, '\t\t'],
+            [2, '    '],
+        ]);
+
+        assert.deepStrictEqual(
+            IndentCodeActionProvider.computeActions(doc, new vscode.Range(3, 0, 3, 0), analysis),
+            [],
+            'Lines without errors get no actions',
+        );
+    });
+
+    test('Should format indentation at the analysed depth', async () => {
+        const { IndentFormattingProvider } = await import('../../IndentFormattingProvider');
+
+        const { doc, analysis } = await openFixture(
+            '\tif x:\n\t\t  a\n  \tb\n\t# keep\n\n    c',
+            'plaintext',
+            { ignoredLines: [3], analysisOptions: { smartTabs: true } },
+        );
+        const format = (insertSpaces: boolean, tabSize: number, keepAlignment: boolean) =>
+            IndentFormattingProvider.computeEdits(
+                doc,
+                0,
+                doc.lineCount - 1,
+                analysis,
+                { insertSpaces, tabSize },
+                keepAlignment,
+            ).map((edit) => [edit.range.start.line, edit.newText]);
+
+        assert.deepStrictEqual(format(true, 2, true), [
+            [0, '  '],
+            [1, '      '],
+            [2, '  '],
+            [5, '  '],
+        ]);
+        assert.deepStrictEqual(
+            format(true, 2, false)[1],
+            [1, '    '],
+            'Alignment past the last level is dropped',
+        );
+        assert.deepStrictEqual(format(false, 4, true), [
+            [2, '\t'],
+            [5, '\t'],
+        ]);
+
+        const python = await openFixture('if x:\n\tif y:\n\t  z', 'python');
+        const snapped = IndentFormattingProvider.computeEdits(
+            python.doc,
+            0,
+            python.doc.lineCount - 1,
+            python.analysis,
+            { insertSpaces: true, tabSize: 4 },
+            false,
+        ).map((edit) => [edit.range.start.line, edit.newText]);
+        assert.deepStrictEqual(
+            snapped,
+            [
+                [1, '    '],
+                [2, '        '],
+            ],
+            'Misaligned lines snap to the nearest level instead of their header',
+        );
+    });
+
+    test('Should format with tabs wider than the indent size', async () => {
+        const { IndentFormattingProvider } = await import('../../IndentFormattingProvider');
+
+        const { doc, analysis } = await openFixture(
+            'a\n    b\n\tc\n\t    d\n        e',
+            'plaintext',
+            { tabSize: 8, indentSize: 4 },
+        );
+        const format = (insertSpaces: boolean, tabSize: number) =>
+            IndentFormattingProvider.computeEdits(
+                doc,
+                0,
+                doc.lineCount - 1,
+                analysis,
+                { insertSpaces, tabSize },
+                true,
+            ).map((edit) => [edit.range.start.line, edit.newText]);
+
+        assert.deepStrictEqual(
+            format(false, 8),
+            [[4, '\t']],
+            'Odd levels stay as spaces after the tabs',
+        );
+        assert.deepStrictEqual(format(true, 4), [
+            [2, '        '],
+            [3, '            '],
+        ]);
+    });
+
+    test('Should re-indent between widths keeping continuation alignment', async () => {
+        const { Reindenter } = await import('../../Reindenter');
+
+        const { doc } = await openFixture(
+            'function f() {\n  foo(a,\n      b);\n  bar(\n    c,\n  );\n  if (x) {\n    y();\n  }\n}',
+            'javascript',
+        );
+        const reindent = (target: { useTabs: boolean; indentSize: number }) =>
+            Reindenter.computeEdits(
+                doc,
+                { useTabs: false, indentSize: 2 },
+                target,
+                4,
+                new Set([7]),
+            ).map((edit) => [edit.range.start.line, edit.newText]);
+
+        assert.deepStrictEqual(reindent({ useTabs: false, indentSize: 4 }), [
+            [1, '    '],
+            [2, '        '],
+            [3, '    '],
+            [4, '        '],
+            [5, '    '],
+            [6, '    '],
+            [8, '    '],
+        ]);
+        assert.deepStrictEqual(
+            reindent({ useTabs: true, indentSize: 0 })[1],
+            [2, '\t    '],
+            'Aligned continuation lines keep their offset as spaces after the tabs',
+        );
+    });
+
+    test('Should fix mixed and misaligned lines on save by mode', async () => {
+        const { FixOnSave } = await import('../../ConfigurationManager');
+        const { SaveFixer } = await import('../../SaveFixer');
+
+        const { doc, analysis } = await openFixture('if x:\n  \ta\n\t  b\n  \t# skip', 'python', {
+            ignoredLines: [3],
+        });
+        const fix = (mode: (typeof FixOnSave)[keyof typeof FixOnSave], useTabs: boolean) =>
+            SaveFixer.computeFixes(doc, analysis, mode, useTabs).edits.map((edit) => [
+                edit.range.start.line,
+                edit.newText,
+            ]);
+
+        assert.deepStrictEqual(
+            fix(FixOnSave.Mixed, false),
+            [
+                [1, '    '],
+                [2, '      '],
+            ],
+            'Mixed lines keep their width',
+        );
+        assert.deepStrictEqual(
+            fix(FixOnSave.Mixed, true),
+            [
+                [1, '\t'],
+                [2, '\t\t'],
+            ],
+            'Spaces that are not a whole level cannot stay in tabs and snap to a level',
+        );
+        assert.deepStrictEqual(fix(FixOnSave.Errors, true), [[2, '\t\t']]);
+        assert.deepStrictEqual(fix(FixOnSave.All, true), [
+            [1, '\t'],
+            [2, '\t\t'],
+        ]);
+        assert.deepStrictEqual(fix(FixOnSave.Off, true), []);
+    });
+
+    // ============================================================================
+    // BRACKET SCOPES
+    // ============================================================================
+
+    test('Should find the enclosing bracket pair regardless of indentation', async () => {
+        const { BracketScopeFinder } = await import('../../BracketScopeFinder');
+        const content = [
+            'int main() {',
+            '  if (x) {',
+            '  puts("} not a brace");',
+            '    /* { nor this */',
+            '  call(a,',
+            '       b);',
+            '  }',
+            '}',
+        ].join('\n');
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'c' });
+        const state = BracketScopeFinder.createState('c');
+
+        // Inside the badly indented `if` body, past the string and comment braces
+        assert.deepStrictEqual(BracketScopeFinder.findEnclosingBlock(state, doc, 3, 2), {
+            openLine: 1,
+            openCharacter: 9,
+            closeLine: 6,
+            closeCharacter: 2,
+        });
+        // Inside the call's parentheses the multi-line argument list is the innermost pair
+        assert.strictEqual(BracketScopeFinder.findEnclosingBlock(state, doc, 5, 7)?.openLine, 4);
+        // Before the `if` opener the function body is the enclosing block
+        assert.strictEqual(BracketScopeFinder.findEnclosingBlock(state, doc, 1, 0)?.openLine, 0);
+        assert.strictEqual(BracketScopeFinder.findEnclosingBlock(state, doc, 7, 1), null);
+    });
+
     // ============================================================================
     // BLOCK COMMENTS
     // ============================================================================